@@ -7,7 +7,20 @@
 
 /* eslint-disable @typescript-eslint/ban-types */
 
-type ExtensionPreferences = {}
+type ExtensionPreferences = {
+  /** Container Runtime - Which container runtimes to list. Auto lists every runtime whose engine is running. */
+  "containerRuntime": "auto" | "docker" | "podman" | "nerdctl",
+  /** Docker Context - Docker context to use, e.g. colima or rancher-desktop. Leave empty for the current context. */
+  "dockerContext"?: string,
+  /** Docker Host - DOCKER_HOST to use, e.g. unix:///Users/me/.colima/default/docker.sock. Ignored when a Docker context is set. */
+  "dockerHost"?: string,
+  /** Stop Grace Period - How long "Stop and Free Port" waits after SIGTERM before sending SIGKILL */
+  "stopGracePeriod": "2" | "5" | "10" | "30",
+  /** Exposure Allowlist - Comma-separated ports, port ranges, process names or images the exposure audit accepts on the network, e.g. 5353, 8000-8099, rapportd, nginx */
+  "auditAllowlist"?: string,
+  /** Service Catalog - Optional JSON file with extra services to recognize (name, ports, processes, images, url, cli, adminPort); its entries take precedence over the built-in ones */
+  "serviceCatalog"?: string
+}
 
 /** Preferences accessible in all the extension's commands */
 declare type Preferences = ExtensionPreferences
@@ -16,12 +29,36 @@ declare namespace Preferences {
   /** Preferences accessible in the `list-localhosts` command */
   export type ListLocalhosts = ExtensionPreferences & {
   /** Default View Mode - Choose the default view mode when opening the extension */
-  "defaultViewMode": "simple" | "advanced"
+  "defaultViewMode": "simple" | "advanced" | "groupByProcess" | "groupByProject",
+  /** Editor - Application used by "Open Project in Editor" */
+  "editorApp": import("@raycast/api").Application,
+  /** Terminal - Application used by "Open Project in Terminal" */
+  "terminalApp": import("@raycast/api").Application,
+  /** Docker - Include exited and created containers in the Docker section */
+  "showStoppedContainers": boolean,
+  /** Recently Closed - How long listeners that went away stay in the Recently Closed section */
+  "recentlyClosedHours": "0" | "1" | "6" | "24" | "72"
+}
+  /** Preferences accessible in the `check-port` command */
+  export type CheckPort = ExtensionPreferences & {}
+  /** Preferences accessible in the `menu-bar` command */
+  export type MenuBar = ExtensionPreferences & {
+  /** Pinned Ports - Ports to watch, e.g. 3000, 5432, 8080. The menu bar then shows how many of them are listening instead of counting all of your listeners */
+  "menuBarPinnedPorts"?: string
 }
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `list-localhosts` command */
   export type ListLocalhosts = {}
+  /** Arguments passed to the `check-port` command */
+  export type CheckPort = {
+  /** 3000 or 3000-3100 */
+  "port": string,
+  /** How many */
+  "count": string
+}
+  /** Arguments passed to the `menu-bar` command */
+  export type MenuBar = {}
 }
 
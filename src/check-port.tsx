@@ -0,0 +1,312 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Icon,
+  launchCommand,
+  LaunchType,
+  List,
+  showToast,
+  Toast,
+  type LaunchProps,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { getGraceMs, getRuntimeConfig, stopWithToast } from "./components/shared";
+import { findOwningContainer, getDockerContainers, runContainerCommand, type ContainerCommand } from "./lib/docker";
+import { collectListeners } from "./lib/listeners";
+import { checkPort, findFreePorts, MAX_FREE_PORTS, parsePortQuery, type BindCheck } from "./lib/ports";
+import { launchCommandLine } from "./lib/relaunch";
+import { detectRuntimes } from "./lib/runtime";
+import { killOwnersByPort, stopProcesses } from "./lib/stop";
+import type { DockerContainer, Listener } from "./lib/types";
+import { friendlyAddress, getErrorMessage } from "./lib/utils";
+import type { Signal } from "./platform";
+
+// =====================
+// UI Command: "what is using port N?" or "give me free ports in a range"
+// =====================
+const DEFAULT_FREE_PORTS = 5;
+
+export default function Command(props: LaunchProps<{ arguments: Arguments.CheckPort }>) {
+  const query = parsePortQuery(props.arguments.port);
+  if ("error" in query) {
+    return (
+      <List>
+        <List.EmptyView icon={Icon.Warning} title="Not a port or range" description={query.error} />
+      </List>
+    );
+  }
+  if (query.kind === "port") return <PortOwners port={query.port} />;
+  const count = Math.min(Math.max(Math.floor(Number(props.arguments.count)) || DEFAULT_FREE_PORTS, 1), MAX_FREE_PORTS);
+  return <FreePorts from={query.from} to={query.to} count={count} />;
+}
+
+type PortOwner = {
+  key: string;
+  protocol: "tcp" | "udp";
+  address: string;
+  listener?: Listener; // absent for container ports whose proxy is a system process (rootful Docker on Linux)
+  container?: DockerContainer;
+};
+
+/**
+ * Every listener on the port, with the container behind it when Docker's port proxy holds it, plus containers
+ * publishing the port through a proxy this user cannot see.
+ */
+async function findPortOwners(port: number): Promise<PortOwner[]> {
+  const config = getRuntimeConfig();
+  const [listeners, runtimes] = await Promise.all([collectListeners(), detectRuntimes(config).catch(() => [])]);
+  const containers = runtimes.length ? await getDockerContainers(config).catch(() => []) : [];
+  // IPv4 and IPv6 binds of one process or container show once per protocol
+  const owners = new Map<string, PortOwner>();
+  for (const l of listeners.filter((l) => l.port === port)) {
+    const container = findOwningContainer(l, containers);
+    const key = container ? `ctr-${container.id}-${l.protocol}` : `${l.pid}-${l.protocol}`;
+    if (owners.has(key)) continue;
+    owners.set(key, { key, protocol: l.protocol, address: l.address, listener: { ...l, container }, container });
+  }
+  for (const c of containers) {
+    for (const p of c.ports) {
+      if (p.hostPort !== port) continue;
+      const protocol = p.protocol === "udp" ? "udp" : "tcp";
+      const key = `ctr-${c.id}-${protocol}`;
+      if (!owners.has(key)) owners.set(key, { key, protocol, address: p.hostIp ?? "*", container: c });
+    }
+  }
+  return [...owners.values()];
+}
+
+function openManager() {
+  return launchCommand({ name: "list-localhosts", type: LaunchType.UserInitiated });
+}
+
+function PortOwners({ port }: { port: number }) {
+  const [owners, setOwners] = useState<PortOwner[]>([]);
+  const [check, setCheck] = useState<BindCheck>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [found, bind] = await Promise.all([findPortOwners(port), checkPort(port)]);
+      setOwners(found);
+      setCheck(bind);
+    } catch (err: unknown) {
+      await showToast({ style: Toast.Style.Failure, title: `Failed to check :${port}`, message: getErrorMessage(err) });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [port]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function stop(l: Listener, signal: Signal) {
+    await stopWithToast(`PID ${l.pid}`, (onProgress) =>
+      stopProcesses([l.pid], { signal, graceMs: getGraceMs(), port: { port, proto: l.protocol }, onProgress })
+    );
+    load();
+  }
+  async function stopByPort(signal: Signal) {
+    const proto = check?.inUse.some((b) => b.startsWith("TCP")) === false ? "udp" : "tcp";
+    await stopWithToast(`owners of :${port}`, (onProgress) =>
+      killOwnersByPort(port, proto, { signal, graceMs: getGraceMs(), onProgress })
+    );
+    load();
+  }
+  async function containerCommand(container: DockerContainer, command: ContainerCommand, done: string) {
+    try {
+      await runContainerCommand(command, container);
+      await showToast({ style: Toast.Style.Success, title: `${done} ${container.name}` });
+      load();
+    } catch (err: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to ${command} ${container.name}`,
+        message: getErrorMessage(err),
+      });
+    }
+  }
+
+  const commonActions = (
+    <ActionPanel.Section>
+      <Action.CopyToClipboard title="Copy Port" content={String(port)} />
+      <Action title="Open Localhost Manager" icon={Icon.List} onAction={openManager} />
+      <Action
+        title="Check Again"
+        icon={Icon.RotateClockwise}
+        onAction={load}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+      />
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`Port ${port}`} searchBarPlaceholder={`Who is using :${port}…`}>
+      {!isLoading && check && !owners.length ? (
+        check.free ? (
+          <List.Item
+            title={`:${port} is free`}
+            subtitle="TCP and UDP, IPv4 and IPv6"
+            icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+            actions={<ActionPanel>{commonActions}</ActionPanel>}
+          />
+        ) : (
+          // Bound by another user or the system: lsof without root cannot name it
+          <List.Item
+            title={check.inUse.length ? `:${port} is in use` : `:${port} could not be checked`}
+            subtitle={
+              check.inUse.length
+                ? `${check.inUse.join(", ")} — by a process this user cannot see`
+                : "Binding it needs administrator rights"
+            }
+            icon={{ source: Icon.XMarkCircle, tintColor: check.inUse.length ? Color.Red : Color.Orange }}
+            actions={
+              <ActionPanel>
+                <Action title="Stop by Port (Nice)" icon={Icon.XMarkCircle} onAction={() => stopByPort("TERM")} />
+                <Action
+                  title="Stop by Port (Force)"
+                  style={Action.Style.Destructive}
+                  icon={Icon.Trash}
+                  onAction={() => stopByPort("KILL")}
+                />
+                {commonActions}
+              </ActionPanel>
+            }
+          />
+        )
+      ) : null}
+      <List.Section title={owners.length ? `In use on :${port}` : undefined}>
+        {owners.map(({ key, protocol, address, listener: l, container }) => (
+          <List.Item
+            key={key}
+            title={container ? container.name : l ? l.displayName || l.cmd : `:${port}`}
+            subtitle={`${protocol.toUpperCase()} • ${friendlyAddress(address)}`}
+            icon={{ source: container ? Icon.Box : Icon.Terminal, tintColor: Color.Red }}
+            accessories={
+              [
+                container ? { tag: container.image, tooltip: "Image" } : undefined,
+                l ? { text: `PID ${l.pid}`, tooltip: "Process ID" } : undefined,
+                l?.user ? { text: l.user, tooltip: "User" } : undefined,
+              ].filter(Boolean) as List.Item.Accessory[]
+            }
+            actions={
+              <ActionPanel>
+                {container ? (
+                  // Published by a container: stopping the PID would take down Docker itself
+                  <ActionPanel.Section title={`Container ${container.name}`}>
+                    <Action
+                      title="Stop Container"
+                      icon={Icon.Stop}
+                      onAction={() => containerCommand(container, "stop", "Stopped")}
+                      shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    />
+                    <Action
+                      title="Kill Container"
+                      style={Action.Style.Destructive}
+                      icon={Icon.Trash}
+                      onAction={() => containerCommand(container, "kill", "Killed")}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+                    />
+                    <Action.CopyToClipboard title="Copy Container Name" content={container.name} />
+                  </ActionPanel.Section>
+                ) : l ? (
+                  <ActionPanel.Section title="Stop App (by PID)">
+                    <Action
+                      title="Stop and Free Port — Recommended"
+                      icon={Icon.XMarkCircle}
+                      onAction={() => stop(l, "TERM")}
+                      shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    />
+                    <Action
+                      title="Force Stop — If Stuck"
+                      style={Action.Style.Destructive}
+                      icon={Icon.Trash}
+                      onAction={() => stop(l, "KILL")}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+                    />
+                    <Action.CopyToClipboard title="Copy PID" content={String(l.pid)} />
+                    <Action.CopyToClipboard title="Copy Command" content={launchCommandLine(l)} />
+                  </ActionPanel.Section>
+                ) : null}
+                {commonActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+function FreePorts({ from, to, count }: { from: number; to: number; count: number }) {
+  const [ports, setPorts] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Known listeners are skipped without a bind; the bind probe catches the ones lsof cannot see
+      const taken = new Set((await collectListeners()).map((l) => l.port));
+      setPorts(await findFreePorts(from, to, count, taken));
+    } catch (err: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to scan ${from}-${to}`,
+        message: getErrorMessage(err),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to, count]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const range = `${from}-${to}`;
+  return (
+    <List isLoading={isLoading} navigationTitle={`Free Ports in ${range}`} searchBarPlaceholder="Filter free ports…">
+      <List.EmptyView
+        icon={Icon.XMarkCircle}
+        title={isLoading ? `Scanning ${range}…` : `No free ports in ${range}`}
+        actions={
+          <ActionPanel>
+            <Action title="Open Localhost Manager" icon={Icon.List} onAction={openManager} />
+          </ActionPanel>
+        }
+      />
+      <List.Section
+        title={`Free in ${range}`}
+        subtitle={ports.length < count && !isLoading ? `only ${ports.length} of ${count}` : undefined}
+      >
+        {ports.map((p) => (
+          <List.Item
+            key={p}
+            title={String(p)}
+            subtitle="Free on TCP and UDP, IPv4 and IPv6"
+            icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy Port" content={String(p)} />
+                <Action.CopyToClipboard
+                  title="Copy All Free Ports"
+                  content={ports.join(", ")}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                />
+                <Action.Paste title="Paste Port" content={String(p)} />
+                <Action
+                  title="Scan Again"
+                  icon={Icon.RotateClockwise}
+                  onAction={load}
+                  shortcut={{ modifiers: ["cmd"], key: "r" }}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,176 @@
+import { Action, ActionPanel, Color, Icon, List, showToast, Toast } from "@raycast/api";
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { connectionStats, hostAddresses, isLocalAddress, pairConnections } from "../lib/connections";
+import type { Connection, Listener } from "../lib/types";
+import { getErrorMessage } from "../lib/utils";
+import { platform, type Signal } from "../platform";
+
+// =====================
+// Connections to one listener's port (pushed from HostActions)
+// =====================
+const REFRESH_MS = 2000;
+
+type StateFilter = "established" | "all";
+
+function clientAddress(c: Connection) {
+  return c.remoteAddress.includes(":") ? `[${c.remoteAddress}]:${c.remotePort}` : `${c.remoteAddress}:${c.remotePort}`;
+}
+
+export function Connections({
+  listener,
+  onStopClient,
+}: {
+  listener: Listener;
+  // Stops a client with the command's usual verified stop and toast
+  onStopClient: (pid: number, name: string, signal: Signal) => Promise<boolean>;
+}) {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stateFilter, setStateFilter] = useState<StateFilter>("established");
+  const local = useMemo(() => hostAddresses(), []);
+  // Shown once when reads start failing, not on every poll, and hidden by the next read that works
+  const failure = useRef<Toast | undefined>(undefined);
+
+  const load = useCallback(async () => {
+    try {
+      setConnections(pairConnections(await platform.getSockets(listener.port), listener.port, local));
+      await failure.current?.hide();
+      failure.current = undefined;
+    } catch (err: unknown) {
+      if (failure.current) {
+        failure.current.message = getErrorMessage(err);
+      } else {
+        failure.current = await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to read connections",
+          message: getErrorMessage(err),
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listener.port, local]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Counts always cover every state, whatever the filter shows
+  const stats = useMemo(() => connectionStats(connections, local), [connections, local]);
+  const visible = stateFilter === "all" ? connections : connections.filter((c) => c.state === "ESTABLISHED");
+
+  const countsMetadata = (
+    <Fragment>
+      <List.Item.Detail.Metadata.Label title="Connections" text={String(stats.total)} />
+      {stats.byState.map(([state, count]) => (
+        <List.Item.Detail.Metadata.Label key={state} title={`  ${state}`} text={String(count)} />
+      ))}
+      <List.Item.Detail.Metadata.Label title="Local Client Processes" text={String(stats.localClients)} />
+      <List.Item.Detail.Metadata.Label title="Remote Hosts" text={String(stats.remoteHosts)} />
+    </Fragment>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail={visible.length > 0}
+      navigationTitle={`Connections — :${listener.port} ${listener.displayName || listener.cmd}`}
+      searchBarPlaceholder="Search by client address or command…"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Connection State"
+          storeValue={true}
+          value={stateFilter}
+          onChange={(v) => setStateFilter(v as StateFilter)}
+        >
+          <List.Dropdown.Item title="Established" value="established" />
+          <List.Dropdown.Item title="All States" value="all" />
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        icon={Icon.Plug}
+        title={connections.length ? "No established connections" : `Nothing is connected to :${listener.port}`}
+        description={
+          connections.length ? `${connections.length} in other states; choose All States to see them` : undefined
+        }
+        actions={
+          <ActionPanel>
+            <Action title="Refresh" icon={Icon.RotateClockwise} onAction={load} />
+          </ActionPanel>
+        }
+      />
+      {visible.map((c) => {
+        const isLocal = isLocalAddress(c.remoteAddress, local);
+        const name = c.clientCmd || (isLocal ? "Unknown local process" : "Remote host");
+        return (
+          <List.Item
+            key={`${c.localAddress}-${clientAddress(c)}`}
+            title={clientAddress(c)}
+            subtitle={name}
+            keywords={[c.clientCmd ?? "", c.clientPid ? String(c.clientPid) : "", c.state]}
+            icon={isLocal ? Icon.Monitor : Icon.Globe}
+            accessories={[
+              {
+                tag: { value: c.state, color: c.state === "ESTABLISHED" ? Color.Green : Color.SecondaryText },
+                tooltip: "Connection State",
+              },
+            ]}
+            detail={
+              <List.Item.Detail
+                metadata={
+                  <List.Item.Detail.Metadata>
+                    {countsMetadata}
+                    <List.Item.Detail.Metadata.Separator />
+                    <List.Item.Detail.Metadata.Label title="Client" text={clientAddress(c)} />
+                    <List.Item.Detail.Metadata.Label title="Client Process" text={name} />
+                    {c.clientPid ? (
+                      <List.Item.Detail.Metadata.Label title="Client PID" text={String(c.clientPid)} />
+                    ) : null}
+                    <List.Item.Detail.Metadata.Label title="Server End" text={`${c.localAddress}:${c.localPort}`} />
+                    {c.serverPid ? (
+                      <List.Item.Detail.Metadata.Label title="Server PID" text={String(c.serverPid)} />
+                    ) : null}
+                    <List.Item.Detail.Metadata.Label title="State" text={c.state} />
+                  </List.Item.Detail.Metadata>
+                }
+              />
+            }
+            actions={
+              <ActionPanel>
+                {c.clientPid && c.clientPid !== listener.pid ? (
+                  <ActionPanel.Section title={`Client PID ${c.clientPid}`}>
+                    <Action
+                      title="Stop Client Process"
+                      icon={Icon.XMarkCircle}
+                      onAction={async () => {
+                        await onStopClient(c.clientPid!, name, "TERM");
+                        load();
+                      }}
+                      shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    />
+                    <Action
+                      title="Force Stop Client Process"
+                      style={Action.Style.Destructive}
+                      icon={Icon.Trash}
+                      onAction={async () => {
+                        await onStopClient(c.clientPid!, name, "KILL");
+                        load();
+                      }}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+                    />
+                    <Action.CopyToClipboard title="Copy Client PID" content={String(c.clientPid)} />
+                  </ActionPanel.Section>
+                ) : null}
+                <Action.CopyToClipboard title="Copy Client Address" content={clientAddress(c)} />
+                <Action title="Refresh" icon={Icon.RotateClockwise} onAction={load} />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
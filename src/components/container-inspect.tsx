@@ -0,0 +1,153 @@
+import { Action, ActionPanel, Color, Detail, Icon, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { inspectContainer } from "../lib/docker";
+import type { ContainerInspect as Inspect, DockerContainer } from "../lib/types";
+import { getErrorMessage } from "../lib/utils";
+
+// =====================
+// Container inspect view (pushed from DockerActions)
+// =====================
+const SECRET_KEY = /pass(word|wd)?|secret|token|api[_-]?key|private[_-]?key|credential|auth|dsn|salt/i;
+// Connection strings carry their password inline: postgres://user:pw@host
+const URL_CREDENTIALS = /:\/\/[^/\s:@]+:[^/\s@]+@/;
+const MASK = "••••••••";
+
+function looksSecret(key: string, value: string) {
+  return SECRET_KEY.test(key) || URL_CREDENTIALS.test(value);
+}
+
+function healthColor(status?: string) {
+  if (status === "healthy") return Color.Green;
+  if (status === "unhealthy") return Color.Red;
+  return Color.Orange;
+}
+
+function codeBlock(lines: string[]) {
+  // Backtick fences inside values would end the block early
+  return "```\n" + lines.map((l) => l.replace(/```/g, "ˋˋˋ")).join("\n") + "\n```";
+}
+
+function toMarkdown(info: Inspect, reveal: boolean) {
+  const out = [`# ${info.name}`];
+
+  if (info.health) {
+    out.push(`## Health — ${info.health.status}`);
+    if (info.health.failingStreak > 0) out.push(`Failing streak: ${info.health.failingStreak}`);
+    // Newest probe first
+    for (const probe of [...info.health.log].reverse()) {
+      const when = probe.start ? new Date(probe.start).toLocaleString() : "unknown time";
+      out.push(`**${when}** — exit ${probe.exitCode}`);
+      if (probe.output) out.push(codeBlock(probe.output.split("\n")));
+    }
+  }
+
+  const argv = [...info.entrypoint, ...info.cmd];
+  if (argv.length) {
+    out.push("## Command");
+    if (info.entrypoint.length) out.push(`Entrypoint: \`${info.entrypoint.join(" ")}\``);
+    if (info.cmd.length) out.push(`Cmd: \`${info.cmd.join(" ")}\``);
+  }
+
+  if (info.env.length) {
+    out.push("## Environment");
+    out.push(codeBlock(info.env.map((e) => `${e.key}=${!reveal && looksSecret(e.key, e.value) ? MASK : e.value}`)));
+  }
+
+  if (info.mounts.length) {
+    out.push("## Mounts");
+    out.push(
+      info.mounts
+        .map((m) => {
+          const source = m.type === "volume" && m.name ? `volume \`${m.name}\`` : `${m.type} \`${m.source}\``;
+          return `- ${source} → \`${m.destination}\`${m.readOnly ? " (read-only)" : ""}`;
+        })
+        .join("\n")
+    );
+  }
+
+  const labels = Object.entries(info.labels);
+  if (labels.length) {
+    out.push("## Labels");
+    out.push(codeBlock(labels.map(([k, v]) => `${k}=${v}`)));
+  }
+
+  return out.join("\n\n");
+}
+
+export function ContainerInspect({ container }: { container: DockerContainer }) {
+  const [info, setInfo] = useState<Inspect | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reveal, setReveal] = useState(false);
+
+  const load = () => {
+    setIsLoading(true);
+    inspectContainer(container)
+      .then(setInfo)
+      .catch(async (err: unknown) => {
+        await showToast({ style: Toast.Style.Failure, title: "Inspect failed", message: getErrorMessage(err) });
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(load, [container.id]);
+
+  const hasSecrets = info?.env.some((e) => looksSecret(e.key, e.value)) ?? false;
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={`Inspect — ${container.name}`}
+      markdown={info ? toMarkdown(info, reveal) : ""}
+      metadata={
+        info ? (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Image" text={info.image} />
+            <Detail.Metadata.Label title="Status" text={info.status} />
+            {info.health ? (
+              <Detail.Metadata.TagList title="Health">
+                <Detail.Metadata.TagList.Item text={info.health.status} color={healthColor(info.health.status)} />
+              </Detail.Metadata.TagList>
+            ) : null}
+            <Detail.Metadata.Label title="Restart Policy" text={info.restartPolicy ?? "no"} />
+            {info.created ? (
+              <Detail.Metadata.Label title="Created" text={new Date(info.created).toLocaleString()} />
+            ) : null}
+            {info.networks.length ? <Detail.Metadata.Separator /> : null}
+            {info.networks.map((n) => (
+              <Detail.Metadata.Label
+                key={n.name}
+                title={`Network ${n.name}`}
+                text={[n.ip, n.ipv6].filter(Boolean).join(", ") || "no address"}
+              />
+            ))}
+          </Detail.Metadata>
+        ) : undefined
+      }
+      actions={
+        <ActionPanel>
+          {hasSecrets ? (
+            <Action
+              title={reveal ? "Hide Secret Values" : "Reveal Secret Values"}
+              icon={reveal ? Icon.EyeDisabled : Icon.Eye}
+              onAction={() => setReveal((r) => !r)}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            />
+          ) : null}
+          {info ? (
+            <Action.CopyToClipboard
+              title="Copy Environment"
+              content={info.env.map((e) => `${e.key}=${e.value}`).join("\n")}
+            />
+          ) : null}
+          <Action.CopyToClipboard title="Copy Container ID" content={container.id} />
+          <Action
+            title="Reload"
+            icon={Icon.RotateClockwise}
+            onAction={load}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
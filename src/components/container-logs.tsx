@@ -0,0 +1,190 @@
+import { Action, ActionPanel, Color, Icon, List, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { useEffect, useMemo, useState } from "react";
+import { followContainerLogs, getContainerLogs } from "../lib/docker";
+import type { DockerContainer, LogLine } from "../lib/types";
+import { getErrorMessage } from "../lib/utils";
+
+// =====================
+// Container log viewer (pushed from DockerActions)
+// =====================
+const TAIL_STEP = 200;
+// Follow mode keeps appending; cap memory for chatty containers
+const MAX_LINES = 5000;
+
+type StreamFilter = "all" | "stdout" | "stderr";
+
+function formatLine(l: LogLine) {
+  return l.time ? `${l.time} ${l.text}` : l.text;
+}
+
+// Lines are chronological, so the last timestamped one is the newest
+function lastTime(lines: LogLine[]) {
+  for (let i = lines.length - 1; i >= 0; i--) if (lines[i].time) return lines[i].time;
+  return undefined;
+}
+
+function shortTime(l: LogLine) {
+  return l.ms ? new Date(l.ms).toLocaleTimeString() : undefined;
+}
+
+export function ContainerLogs({ container }: { container: DockerContainer }) {
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tail, setTail] = useState(TAIL_STEP);
+  // When the last fetch started; follow mode picks up from here if that fetch found no lines
+  const [fetchedAt, setFetchedAt] = useState(() => new Date().toISOString());
+  // Timestamp follow mode streams from, or undefined when not following
+  const [followSince, setFollowSince] = useState<string>();
+  const follow = followSince !== undefined;
+  const [streamFilter, setStreamFilter] = useState<StreamFilter>("all");
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    const startedAt = new Date().toISOString();
+    getContainerLogs(container, tail)
+      .then((l) => {
+        if (cancelled) return;
+        setLines(l);
+        setFetchedAt(startedAt);
+      })
+      .catch(async (err: unknown) => {
+        await showToast({ style: Toast.Style.Failure, title: "Failed to load logs", message: getErrorMessage(err) });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [container.id, tail]);
+
+  useEffect(() => {
+    if (followSince === undefined) return;
+    let stop: (() => void) | undefined;
+    let cancelled = false;
+    followContainerLogs(
+      container,
+      followSince,
+      (incoming) =>
+        setLines((prev) => {
+          // --since includes lines stamped exactly `followSince`, which the fetch already listed
+          const fresh = incoming.filter(
+            (l) =>
+              l.time !== followSince ||
+              !prev.some((p) => p.time === l.time && p.stream === l.stream && p.text === l.text)
+          );
+          return [...prev, ...fresh].slice(-MAX_LINES);
+        }),
+      async (err) => {
+        setFollowSince(undefined);
+        await showToast({ style: Toast.Style.Failure, title: "Stopped following logs", message: getErrorMessage(err) });
+      }
+    )
+      .then((s) => {
+        if (cancelled) s();
+        else stop = s;
+      })
+      .catch(async (err: unknown) => {
+        setFollowSince(undefined);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to follow logs", message: getErrorMessage(err) });
+      });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [followSince, container.id]);
+
+  // Chronological order, filtered the same way the list shows them; copy and export use exactly this
+  const visible = useMemo(() => {
+    const needle = searchText.trim().toLowerCase();
+    return lines.filter(
+      (l) => (streamFilter === "all" || l.stream === streamFilter) && (!needle || l.text.toLowerCase().includes(needle))
+    );
+  }, [lines, streamFilter, searchText]);
+
+  async function exportVisible() {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const path = join(homedir(), "Downloads", `${container.name}-${stamp}.log`);
+    try {
+      await writeFile(path, visible.map(formatLine).join("\n") + "\n", "utf8");
+      await showToast({ style: Toast.Style.Success, title: `Exported ${visible.length} lines`, message: path });
+      await showInFinder(path);
+    } catch (err: unknown) {
+      await showToast({ style: Toast.Style.Failure, title: "Export failed", message: getErrorMessage(err) });
+    }
+  }
+
+  const actions = (line?: LogLine) => (
+    <ActionPanel>
+      {line ? <Action.CopyToClipboard title="Copy Line" content={formatLine(line)} /> : null}
+      <Action.CopyToClipboard
+        title="Copy Visible Log"
+        content={visible.map(formatLine).join("\n")}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action
+        title="Export Visible Log to Downloads"
+        icon={Icon.Download}
+        onAction={exportVisible}
+        shortcut={{ modifiers: ["cmd"], key: "s" }}
+      />
+      <ActionPanel.Section>
+        <Action
+          title={follow ? "Stop Following" : "Follow New Output"}
+          icon={follow ? Icon.Pause : Icon.Play}
+          onAction={() => setFollowSince(follow ? undefined : (lastTime(lines) ?? fetchedAt))}
+          shortcut={{ modifiers: ["cmd"], key: "f" }}
+        />
+        <Action
+          title={`Load ${TAIL_STEP} More Lines`}
+          icon={Icon.ArrowUp}
+          onAction={() => setTail((t) => t + TAIL_STEP)}
+          shortcut={{ modifiers: ["cmd"], key: "m" }}
+        />
+      </ActionPanel.Section>
+    </ActionPanel>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Logs — ${container.name}${follow ? " (following)" : ""}`}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Search logs…"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Output Stream"
+          storeValue={true}
+          value={streamFilter}
+          onChange={(v) => setStreamFilter(v as StreamFilter)}
+        >
+          <List.Dropdown.Item title="stdout + stderr" value="all" />
+          <List.Dropdown.Item title="stdout only" value="stdout" />
+          <List.Dropdown.Item title="stderr only" value="stderr" />
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        icon={Icon.Document}
+        title={lines.length ? "No matching lines" : "No log output"}
+        actions={actions()}
+      />
+      {/* Newest first, so follow mode shows new output at the top */}
+      {[...visible].reverse().map((l, idx) => (
+        <List.Item
+          key={`${visible.length - idx}-${l.time ?? ""}`}
+          title={l.text || " "}
+          icon={l.stream === "stderr" ? { source: Icon.ExclamationMark, tintColor: Color.Red } : Icon.Text}
+          accessories={[{ text: shortTime(l), tooltip: l.time }]}
+          actions={actions(l)}
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,79 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { readLaunchLog } from "../lib/relaunch";
+import { getErrorMessage } from "../lib/utils";
+
+// =====================
+// Output of a relaunched process (pushed from HostActions and Recently Closed)
+// =====================
+// The process writes straight to the file, so the viewer simply re-reads it
+const POLL_MS = 1000;
+
+export function ProcessLog({ logFile, title }: { logFile: string; title: string }) {
+  const [lines, setLines] = useState<string[]>([]);
+  const [error, setError] = useState<string>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      readLaunchLog(logFile)
+        .then((l) => {
+          if (cancelled) return;
+          setLines(l);
+          setError(undefined);
+        })
+        .catch((err: unknown) => {
+          if (!cancelled) setError(getErrorMessage(err));
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [logFile]);
+
+  const visible = useMemo(() => {
+    const needle = searchText.trim().toLowerCase();
+    return needle ? lines.filter((l) => l.toLowerCase().includes(needle)) : lines;
+  }, [lines, searchText]);
+
+  const actions = (line?: string) => (
+    <ActionPanel>
+      {line !== undefined ? <Action.CopyToClipboard title="Copy Line" content={line} /> : null}
+      <Action.CopyToClipboard
+        title="Copy Visible Log"
+        content={visible.join("\n")}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action.Open title="Open Log File" target={logFile} shortcut={{ modifiers: ["cmd"], key: "o" }} />
+      <Action.ShowInFinder path={logFile} />
+    </ActionPanel>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Log — ${title}`}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Search output…"
+    >
+      <List.EmptyView
+        icon={Icon.Document}
+        title={error ? "Log not available" : lines.length ? "No matching lines" : "No output yet"}
+        description={error}
+        actions={actions()}
+      />
+      {/* Newest first, so new output shows at the top */}
+      {[...visible].reverse().map((l, idx) => (
+        <List.Item key={visible.length - idx} title={l || " "} icon={Icon.Text} actions={actions(l)} />
+      ))}
+    </List>
+  );
+}
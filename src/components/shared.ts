@@ -0,0 +1,65 @@
+import { getPreferenceValues, openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { readFile } from "fs/promises";
+import type { RuntimeConfig } from "../lib/runtime";
+import { BUILTIN_SERVICES, parseServiceCatalog, type ServiceDef } from "../lib/services";
+import { summarizeStop, type StopReport } from "../lib/stop";
+import { getErrorMessage } from "../lib/utils";
+
+// =====================
+// Helpers shared by the commands
+// =====================
+export function getGraceMs() {
+  const { stopGracePeriod } = getPreferenceValues<Preferences>();
+  return (Number(stopGracePeriod) || 5) * 1000;
+}
+
+export function getRuntimeConfig(): RuntimeConfig {
+  const { containerRuntime, dockerContext, dockerHost } = getPreferenceValues<Preferences>();
+  return { preferred: containerRuntime || "auto", dockerContext, dockerHost };
+}
+
+/** Runs a verified stop behind an animated toast that follows its progress and ends with the real outcome. */
+export async function stopWithToast(what: string, run: (onProgress: (status: string) => void) => Promise<StopReport>) {
+  const toast = await showToast({ style: Toast.Style.Animated, title: `Stopping ${what}…` });
+  try {
+    const summary = summarizeStop(await run((status) => (toast.message = status)), what);
+    toast.style = summary.ok ? Toast.Style.Success : Toast.Style.Failure;
+    toast.title = summary.title;
+    toast.message = summary.message;
+    return summary.ok;
+  } catch (err: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = `Failed to stop ${what}`;
+    toast.message = getErrorMessage(err);
+    return false;
+  }
+}
+
+/**
+ * Built-in services plus the user's catalog file, whose entries win. Problems in the file are shown, not fatal,
+ * unless `report` is false, as on background refreshes.
+ */
+export async function loadServiceCatalog(report = true): Promise<ServiceDef[]> {
+  const { serviceCatalog } = getPreferenceValues<Preferences>();
+  if (!serviceCatalog) return BUILTIN_SERVICES;
+  try {
+    const { services, errors } = parseServiceCatalog(await readFile(serviceCatalog, "utf8"));
+    if (errors.length && report) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Service catalog: ${errors.length} ${errors.length === 1 ? "problem" : "problems"}`,
+        message: errors.join("\n"),
+        primaryAction: { title: "Open Extension Preferences", onAction: openExtensionPreferences },
+      });
+    }
+    return [...services, ...BUILTIN_SERVICES];
+  } catch (err: unknown) {
+    if (!report) return BUILTIN_SERVICES;
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to read service catalog",
+      message: getErrorMessage(err),
+    });
+    return BUILTIN_SERVICES;
+  }
+}
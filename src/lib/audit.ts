@@ -0,0 +1,217 @@
+import type { DockerContainer, Listener } from "./types";
+import { friendlyAddress } from "./utils";
+
+// =====================
+// Network exposure audit
+// =====================
+// Anything not bound to loopback can be reached from other machines on the network (firewall permitting).
+// Built-in rules rate how bad that is for what is listening; the first matching rule wins.
+
+export type Severity = "high" | "medium" | "low";
+
+export const SEVERITIES: Severity[] = ["high", "medium", "low"];
+
+type Rule = {
+  severity: Severity;
+  title: string;
+  ports?: number[];
+  names?: RegExp; // process name, container image or container name
+  portRange?: [number, number];
+};
+
+const RULES: Rule[] = [
+  {
+    severity: "high",
+    title: "Database",
+    ports: [1433, 1521, 3306, 5432, 5984, 6379, 7687, 8086, 9042, 9200, 11211, 26257, 27017, 28015],
+    names:
+      /^(postgres|mysqld?|mariadbd?|mongod|mongo|redis(-server)?|valkey(-server)?|memcached|elasticsearch|opensearch|clickhouse(-server)?|cockroach|influxd?|couchdb|neo4j|cassandra|sqlservr|mssql)\b/i,
+  },
+  {
+    severity: "high",
+    title: "Debugger or remote control",
+    // Node inspector, JDWP, debugpy, Delve, unencrypted Docker API
+    ports: [2375, 5005, 5678, 9229, 9230, 40000],
+  },
+  {
+    severity: "medium",
+    title: "Message broker or admin console",
+    ports: [4222, 5672, 8161, 9092, 15672, 61616],
+    names: /^(rabbitmq|kafka|nats(-server)?|activemq|pgadmin|adminer|mailhog|mailpit)\b/i,
+  },
+  {
+    severity: "medium",
+    title: "Dev server",
+    portRange: [3000, 9999],
+  },
+  { severity: "low", title: "Network service" },
+];
+
+export type Exposure = {
+  key: string;
+  severity: Severity;
+  rule: string;
+  port: number;
+  protocol: string;
+  address: string; // as bound, e.g. "*" or "0.0.0.0"
+  owner: string; // process name, or container name and image
+  pid?: number;
+  container?: DockerContainer;
+  listener?: Listener;
+  allowlisted: boolean;
+};
+
+const LOOPBACK = /^(127\.|::1$|localhost$|\[::1\]$)/;
+
+/** Bound to something other than loopback: all interfaces ("*", "0.0.0.0", "::", "") or a network address. */
+export function isExposed(address: string) {
+  return !LOOPBACK.test(address);
+}
+
+export function isAllInterfaces(address: string) {
+  return ["*", "0.0.0.0", "::", "[::]", ""].includes(address);
+}
+
+// =====================
+// Allowlist: "5353, 8000-8099, rapportd, nginx"
+// =====================
+export type Allowlist = { ports: [number, number][]; names: string[] };
+
+export function parseAllowlist(text: string | undefined): Allowlist {
+  const out: Allowlist = { ports: [], names: [] };
+  for (const raw of (text ?? "").split(/[,\n]/)) {
+    const entry = raw.trim().replace(/^:/, "");
+    if (!entry) continue;
+    const range = entry.match(/^(\d+)(?:-(\d+))?$/);
+    if (range) out.ports.push([Number(range[1]), Number(range[2] ?? range[1])]);
+    else out.names.push(entry.toLowerCase());
+  }
+  return out;
+}
+
+// Image names match without registry and tag: "nginx" allows "docker.io/library/nginx:1.27"
+function imageName(image: string) {
+  return (image.split("/").pop() ?? image).split(/[:@]/)[0];
+}
+
+function candidateNames(owner: { cmd?: string; displayName?: string; container?: DockerContainer }) {
+  return [
+    owner.cmd,
+    owner.displayName,
+    owner.container?.name,
+    owner.container && imageName(owner.container.image),
+    owner.container?.compose?.service,
+  ]
+    .filter((n): n is string => !!n)
+    .map((n) => n.toLowerCase());
+}
+
+function isAllowed(allowlist: Allowlist, port: number, names: string[]) {
+  return (
+    allowlist.ports.some(([min, max]) => port >= min && port <= max) || names.some((n) => allowlist.names.includes(n))
+  );
+}
+
+function classify(port: number, names: string[]): Rule {
+  return RULES.find(
+    (r) =>
+      r.ports?.includes(port) ||
+      names.some((n) => r.names?.test(n)) ||
+      (r.portRange && port >= r.portRange[0] && port <= r.portRange[1]) ||
+      (!r.ports && !r.names && !r.portRange)
+  )!;
+}
+
+/**
+ * Every exposed host listener and published container port, most severe first. Host rows that Docker's port
+ * proxy holds for a container are reported once, as the container. IPv4 and IPv6 binds of one port count once.
+ */
+export function auditExposures(listeners: Listener[], containers: DockerContainer[], allowlist: Allowlist): Exposure[] {
+  const out = new Map<string, Exposure>();
+  for (const l of listeners) {
+    if (l.container || !isExposed(l.address)) continue;
+    const key = `pid-${l.pid}-${l.port}-${l.protocol}`;
+    if (out.has(key)) continue;
+    const names = candidateNames(l);
+    const rule = classify(l.port, names);
+    out.set(key, {
+      key,
+      severity: rule.severity,
+      rule: rule.title,
+      port: l.port,
+      protocol: l.protocol,
+      address: l.address,
+      owner: l.displayName || l.cmd,
+      pid: l.pid,
+      listener: l,
+      allowlisted: isAllowed(allowlist, l.port, names),
+    });
+  }
+  for (const c of containers) {
+    for (const p of c.ports) {
+      if (p.hostPort === undefined || !isExposed(p.hostIp ?? "")) continue;
+      const key = `ctr-${c.id}-${p.hostPort}-${p.protocol}`;
+      if (out.has(key)) continue;
+      const names = candidateNames({ container: c });
+      // Rate by what runs inside: 5432 in the container is a database whatever host port it is published on
+      const rule = [classify(p.containerPort, names), classify(p.hostPort, names)].sort(
+        (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+      )[0];
+      out.set(key, {
+        key,
+        severity: rule.severity,
+        rule: rule.title,
+        port: p.hostPort,
+        protocol: p.protocol,
+        address: p.hostIp || "0.0.0.0",
+        owner: `${c.name} (${c.image})`,
+        container: c,
+        allowlisted: isAllowed(allowlist, p.hostPort, names),
+      });
+    }
+  }
+  return [...out.values()].sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) || a.port - b.port
+  );
+}
+
+export function exposureReason(e: Exposure) {
+  const where = isAllInterfaces(e.address) ? "all network interfaces" : friendlyAddress(e.address);
+  return `${e.rule} on ${where}`;
+}
+
+/** How to bind to loopback instead, for the report. */
+function remedy(e: Exposure) {
+  if (!e.container) return "Bind to `127.0.0.1` (or `localhost`)";
+  const containerPort = e.container.ports.find((p) => p.hostPort === e.port)?.containerPort ?? e.port;
+  return `Publish as \`127.0.0.1:${e.port}:${containerPort}\``;
+}
+
+/** Markdown report: open exposures per severity, then what the allowlist accepted. */
+export function exposureReport(exposures: Exposure[], generatedAt = new Date(), host?: string): string {
+  const open = exposures.filter((e) => !e.allowlisted);
+  const allowed = exposures.filter((e) => e.allowlisted);
+  const row = (e: Exposure) =>
+    `| ${e.port}/${e.protocol} | ${e.address} | ${e.owner.replace(/\|/g, "\\|")} | ${e.pid ?? ""} | ${e.rule} | ${remedy(e)} |`;
+  const header = "| Port | Bound To | Owner | PID | Rule | Fix |\n| --- | --- | --- | --- | --- | --- |";
+  const counts = SEVERITIES.map((s) => `${open.filter((e) => e.severity === s).length} ${s}`)
+    .filter((c) => !c.startsWith("0 "))
+    .join(", ");
+
+  const lines = [
+    "# Network Exposure Report",
+    "",
+    `Generated ${generatedAt.toLocaleString()}${host ? ` on ${host}` : ""}.`,
+    "",
+    `${open.length} exposed ${open.length === 1 ? "listener" : "listeners"}${counts ? ` (${counts})` : ""}, ` +
+      `${allowed.length} allowlisted.`,
+  ];
+  for (const severity of SEVERITIES) {
+    const list = open.filter((e) => e.severity === severity);
+    if (!list.length) continue;
+    lines.push("", `## ${severity[0].toUpperCase()}${severity.slice(1)}`, "", header, ...list.map(row));
+  }
+  if (allowed.length) lines.push("", "## Allowlisted", "", header, ...allowed.map(row));
+  if (!exposures.length) lines.push("", "Everything listens on loopback only.");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,84 @@
+import { isContainerRunning, runContainerCommand } from "./docker";
+import { stopProcesses } from "./stop";
+import type { DockerContainer, Listener } from "./types";
+
+// =====================
+// Bulk stop (visible rows, marked rows, same command / user / image)
+// =====================
+export type BulkPlan = {
+  processes: { pid: number; name: string; ports: number[] }[];
+  containers: DockerContainer[];
+};
+
+export type BulkResult = { stopped: number; failed: string[] };
+
+/**
+ * What stopping these rows would touch: one entry per PID and per running container. Rows published by a
+ * container are stopped through the container, never through Docker's port proxy.
+ */
+export function planBulkStop(listeners: Listener[], containers: DockerContainer[]): BulkPlan {
+  const processes = new Map<number, BulkPlan["processes"][number]>();
+  const byId = new Map<string, DockerContainer>();
+  for (const l of listeners) {
+    if (l.container) {
+      byId.set(l.container.id, l.container);
+      continue;
+    }
+    const p = processes.get(l.pid) ?? { pid: l.pid, name: l.displayName || l.cmd, ports: [] };
+    if (!p.ports.includes(l.port)) p.ports.push(l.port);
+    processes.set(l.pid, p);
+  }
+  for (const c of containers) byId.set(c.id, c);
+  return {
+    processes: [...processes.values()],
+    containers: [...byId.values()].filter(isContainerRunning),
+  };
+}
+
+export function planSize(plan: BulkPlan) {
+  return plan.processes.length + plan.containers.length;
+}
+
+/** One line per PID or container for the confirmation, cut off after `max` lines. */
+export function describePlan(plan: BulkPlan, max = 20): string {
+  const lines = [
+    ...plan.processes.map((p) => `PID ${p.pid}  ${p.name}  :${p.ports.sort((a, b) => a - b).join(", :")}`),
+    ...plan.containers.map((c) => `Container ${c.name}  (${c.image})`),
+  ];
+  if (lines.length <= max) return lines.join("\n");
+  return [...lines.slice(0, max), `…and ${lines.length - max} more`].join("\n");
+}
+
+/** Stops containers one by one, then every PID with the verified stop. Never throws; failures are collected. */
+export async function runBulkStop(
+  plan: BulkPlan,
+  graceMs: number,
+  onProgress?: (status: string) => void
+): Promise<BulkResult> {
+  const failed: string[] = [];
+  let stopped = 0;
+  for (const [i, c] of plan.containers.entries()) {
+    onProgress?.(`Container ${i + 1} of ${plan.containers.length}: ${c.name}`);
+    try {
+      await runContainerCommand("stop", c);
+      stopped++;
+    } catch {
+      failed.push(c.name);
+    }
+  }
+  if (plan.processes.length) {
+    onProgress?.(`Waiting for ${plan.processes.length} process(es) to exit…`);
+    const report = await stopProcesses(
+      plan.processes.map((p) => p.pid),
+      { graceMs, onProgress }
+    );
+    // Processes that had already exited count as stopped
+    stopped += report.exited.length + report.killed.length;
+    failed.push(
+      ...report.denied.map((pid) => `PID ${pid} (not permitted)`),
+      ...report.survivors.map((pid) => `PID ${pid} (still running)`),
+      ...report.failed
+    );
+  }
+  return { stopped, failed };
+}
@@ -0,0 +1,101 @@
+import { networkInterfaces } from "os";
+import type { SocketRecord } from "./parsers";
+import type { Connection } from "./types";
+
+// =====================
+// Connections to a listening port (from platform.getSockets)
+// =====================
+export type ConnectionStats = {
+  total: number;
+  byState: [string, number][]; // most common first
+  localClients: number; // distinct client PIDs on this machine
+  remoteHosts: number; // distinct client addresses that are not this machine
+};
+
+const LOOPBACK = /^(127\.|::1$|localhost$)/;
+
+// lsof and /proc print IPv4 clients of a dual-stack socket as "::ffff:10.0.0.2"
+function normalize(address: string) {
+  return address.replace(/^::ffff:/i, "").replace(/^\[(.*)\]$/, "$1");
+}
+
+const endpoint = (address: string, port: number) => `${normalize(address)}:${port}`;
+
+export function hostAddresses(): Set<string> {
+  const out = new Set<string>();
+  for (const list of Object.values(networkInterfaces())) {
+    for (const a of list ?? []) out.add(normalize(a.address.split("%")[0]));
+  }
+  return out;
+}
+
+export function isLocalAddress(address: string, local: Set<string>) {
+  const a = normalize(address);
+  return LOOPBACK.test(a) || local.has(a);
+}
+
+/**
+ * Joins the server's end of each connection with the client's end when the client runs here, so every
+ * connection carries the client's PID and command. Client ends whose server end we cannot see (another user's
+ * server, a VM behind Docker's proxy) still count; connections from this port to other machines do not.
+ */
+export function pairConnections(sockets: SocketRecord[], port: number, local = hostAddresses()): Connection[] {
+  const clients = new Map<string, SocketRecord>();
+  for (const s of sockets) {
+    if (s.remotePort === port && s.localPort !== port) clients.set(endpoint(s.localAddress, s.localPort), s);
+  }
+
+  const out = new Map<string, Connection>();
+  for (const s of sockets) {
+    if (s.localPort !== port) continue;
+    const key = `${endpoint(s.localAddress, s.localPort)}-${endpoint(s.remoteAddress, s.remotePort)}`;
+    // Forked workers share the listening socket's connections; the first owner is enough
+    if (out.has(key)) continue;
+    const client = clients.get(endpoint(s.remoteAddress, s.remotePort));
+    clients.delete(endpoint(s.remoteAddress, s.remotePort));
+    out.set(key, {
+      localAddress: s.localAddress,
+      localPort: s.localPort,
+      remoteAddress: s.remoteAddress,
+      remotePort: s.remotePort,
+      state: s.state || client?.state || "UNKNOWN",
+      serverPid: s.pid,
+      clientPid: client?.pid,
+      clientCmd: client?.cmd,
+    });
+  }
+  for (const c of clients.values()) {
+    if (!isLocalAddress(c.remoteAddress, local)) continue;
+    out.set(`client-${endpoint(c.localAddress, c.localPort)}`, {
+      localAddress: c.remoteAddress,
+      localPort: port,
+      remoteAddress: c.localAddress,
+      remotePort: c.localPort,
+      state: c.state || "UNKNOWN",
+      clientPid: c.pid,
+      clientCmd: c.cmd,
+    });
+  }
+
+  // Established first, then grouped by client
+  return [...out.values()].sort(
+    (a, b) =>
+      Number(b.state === "ESTABLISHED") - Number(a.state === "ESTABLISHED") ||
+      (a.clientCmd ?? "~").localeCompare(b.clientCmd ?? "~") ||
+      normalize(a.remoteAddress).localeCompare(normalize(b.remoteAddress)) ||
+      a.remotePort - b.remotePort
+  );
+}
+
+export function connectionStats(connections: Connection[], local = hostAddresses()): ConnectionStats {
+  const byState = new Map<string, number>();
+  for (const c of connections) byState.set(c.state, (byState.get(c.state) ?? 0) + 1);
+  return {
+    total: connections.length,
+    byState: [...byState].sort((a, b) => b[1] - a[1]),
+    localClients: new Set(connections.flatMap((c) => (c.clientPid ? [c.clientPid] : []))).size,
+    remoteHosts: new Set(
+      connections.filter((c) => !isLocalAddress(c.remoteAddress, local)).map((c) => normalize(c.remoteAddress))
+    ).size,
+  };
+}
@@ -0,0 +1,199 @@
+import { existsSync } from "fs";
+import {
+  DOCKER_PS_FORMAT,
+  DOCKER_STATS_FORMAT,
+  PODMAN_PS_FORMAT,
+  parseDockerInspect,
+  parseDockerLogLine,
+  parseDockerLogs,
+  parseDockerPsLine,
+  parseDockerStatsLine,
+} from "./parsers";
+import { detectRuntimes, getRuntime, runtimeExec, type ContainerRuntime, type RuntimeConfig } from "./runtime";
+import type { ContainerInspect, DockerContainer, Listener, LogLine } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Container helpers (ps / stats), across every detected runtime
+// =====================
+/**
+ * Running containers of every detected runtime, plus exited and created ones when `includeStopped` is set.
+ * Each container carries its runtime plus CPU and memory from that runtime's stats.
+ */
+export async function getDockerContainers(config: RuntimeConfig, includeStopped = false): Promise<DockerContainer[]> {
+  const runtimes = await detectRuntimes(config);
+  const perRuntime = await Promise.all(
+    runtimes.map((rt) => listContainers(rt, includeStopped).catch(() => [] as DockerContainer[]))
+  );
+  // podman-docker and docker contexts pointing at the Podman socket list the same containers twice
+  const seen = new Set<string>();
+  return perRuntime.flat().filter((c) => !seen.has(c.id) && seen.add(c.id));
+}
+
+async function listContainers(runtime: ContainerRuntime, includeStopped: boolean): Promise<DockerContainer[]> {
+  const format = runtime.id === "podman" ? PODMAN_PS_FORMAT : DOCKER_PS_FORMAT;
+  const args = ["ps", "--no-trunc", "--format", format];
+  if (includeStopped) args.push("--all");
+  const [{ stdout }, stats] = await Promise.all([
+    runtimeExec(runtime, args, { timeout: 3000 }),
+    getStatsByName(runtime),
+  ]);
+  return stdout
+    .split("\n")
+    .map(parseDockerPsLine)
+    .filter((c): c is DockerContainer => c !== null)
+    .map((c) => ({ ...c, runtime: runtime.id, cpu: stats[c.name]?.cpu, mem: stats[c.name]?.mem }));
+}
+
+async function getStatsByName(runtime: ContainerRuntime): Promise<Record<string, { cpu?: number; mem?: string }>> {
+  const stats: Record<string, { cpu?: number; mem?: string }> = {};
+  try {
+    const { stdout } = await runtimeExec(runtime, ["stats", "--no-stream", "--format", DOCKER_STATS_FORMAT], {
+      timeout: 3500,
+    });
+    for (const line of stdout.split("\n")) {
+      const parsed = parseDockerStatsLine(line);
+      if (parsed) stats[parsed.name] = { cpu: parsed.cpu, mem: parsed.mem };
+    }
+  } catch {
+    // stats may fail while the engine is starting; ignore
+  }
+  return stats;
+}
+
+export type ContainerCommand = "stop" | "start" | "restart" | "kill" | "rm";
+
+/** Runs `<runtime> <command> <id>`; throws when the runtime is unavailable or the command fails. */
+export async function runContainerCommand(command: ContainerCommand, container: DockerContainer) {
+  await runtimeExec(getRuntime(container.runtime), [command, container.id]);
+}
+
+/**
+ * Removes every stopped container (`container prune`) in each detected runtime. Resolves with the number of
+ * containers removed.
+ */
+export async function pruneStoppedContainers(config: RuntimeConfig): Promise<number> {
+  const runtimes = await detectRuntimes(config);
+  if (!runtimes.length) throw new Error("No container runtime available");
+  let count = 0;
+  for (const rt of runtimes) {
+    const { stdout } = await runtimeExec(rt, ["container", "prune", "--force"], { timeout: 30_000 });
+    // Output lists the removed IDs (under "Deleted Containers:" for docker), followed by the reclaimed space
+    count += stdout.split("\n").filter((l) => /^[0-9a-f]{64}$/.test(l.trim())).length;
+  }
+  return count;
+}
+
+export function isContainerRunning(c: DockerContainer) {
+  return c.state ? ["running", "restarting", "paused"].includes(c.state) : c.status.startsWith("Up");
+}
+
+export async function inspectContainer(container: DockerContainer): Promise<ContainerInspect> {
+  const { stdout } = await runtimeExec(getRuntime(container.runtime), ["inspect", container.id], { timeout: 5000 });
+  const parsed = parseDockerInspect(stdout);
+  if (!parsed) throw new Error(`Could not read inspect output for ${container.name}`);
+  return parsed;
+}
+
+// =====================
+// Logs
+// =====================
+/** The last `tail` lines of both output streams, with timestamps. */
+export async function getContainerLogs(container: DockerContainer, tail: number): Promise<LogLine[]> {
+  const { stdout, stderr } = await runtimeExec(
+    getRuntime(container.runtime),
+    ["logs", "--timestamps", "--tail", String(tail), container.id],
+    { timeout: 10_000, maxBuffer: 20 * 1024 * 1024, stripFinalNewline: false }
+  );
+  return parseDockerLogs(stdout, stderr);
+}
+
+/**
+ * Streams log lines stamped `since` (RFC 3339) or later until the returned stop function is called, so nothing
+ * written after the last fetch is lost. Partial lines are held back until their newline arrives so a line is
+ * never split in two.
+ */
+export async function followContainerLogs(
+  container: DockerContainer,
+  since: string,
+  onLines: (lines: LogLine[]) => void,
+  onError: (err: unknown) => void
+): Promise<() => void> {
+  const subprocess = runtimeExec(
+    getRuntime(container.runtime),
+    ["logs", "--timestamps", "--follow", "--since", since, container.id],
+    { buffer: false }
+  );
+  for (const stream of ["stdout", "stderr"] as const) {
+    let pending = "";
+    subprocess[stream]?.setEncoding("utf8");
+    subprocess[stream]?.on("data", (chunk: string) => {
+      const parts = (pending + chunk).split("\n");
+      pending = parts.pop() ?? "";
+      const lines = parts.filter(Boolean).map((l) => parseDockerLogLine(l, stream));
+      if (lines.length) onLines(lines);
+    });
+  }
+  subprocess.catch((err: unknown) => {
+    if (!subprocess.killed) onError(err);
+  });
+  return () => {
+    subprocess.kill();
+  };
+}
+
+export type ComposeCommand = "stop" | "start" | "restart" | "down";
+
+/**
+ * Runs `<runtime> compose <command>` for the container's whole project, or for one service. Uses the project's
+ * recorded compose files when they still exist so the project model matches what was started.
+ */
+export async function runComposeCommand(container: DockerContainer, command: ComposeCommand, service?: string) {
+  const compose = container.compose;
+  if (!compose) throw new Error(`${container.name} is not part of a compose project`);
+  const files = compose.configFiles.filter((f) => existsSync(f));
+  const args = ["compose", "-p", compose.project, ...files.flatMap((f) => ["-f", f]), command];
+  if (service) args.push(service);
+  await runtimeExec(getRuntime(container.runtime), args, {
+    cwd: compose.workingDir && existsSync(compose.workingDir) ? compose.workingDir : undefined,
+    timeout: 120_000,
+  });
+}
+
+// =====================
+// Host listener <-> container correlation
+// =====================
+// Processes that listen on the host on behalf of published container ports. Killing them takes Docker down.
+const DOCKER_PROXY_PROCESSES = [
+  "com.docker.backend",
+  "com.docker.vpnkit",
+  "vpnkit",
+  "vpnkit-bridge",
+  "docker-proxy",
+  "rootlessport",
+  "rootlesskit",
+  "gvproxy",
+  "limactl",
+];
+
+export function isDockerProxy(l: Listener) {
+  const names = [l.displayName, basename(l.execPath), l.cmd];
+  // lsof truncates command names, e.g. "com.docke"
+  return names.some((n) => n && DOCKER_PROXY_PROCESSES.some((p) => p === n || (n.length >= 9 && p.startsWith(n))));
+}
+
+const WILDCARDS = new Set(["*", "0.0.0.0", "::", ""]);
+
+function sameBind(listenerAddress: string, hostIp?: string) {
+  const a = WILDCARDS.has(listenerAddress) ? "*" : listenerAddress;
+  const b = hostIp === undefined || WILDCARDS.has(hostIp) ? "*" : hostIp;
+  return a === b;
+}
+
+/** The container publishing this listener's port, if the listener is one of Docker's port proxies. */
+export function findOwningContainer(l: Listener, containers: DockerContainer[]): DockerContainer | undefined {
+  if (!isDockerProxy(l)) return undefined;
+  return containers.find((c) =>
+    c.ports.some((p) => p.hostPort === l.port && p.protocol === l.protocol && sameBind(l.address, p.hostIp))
+  );
+}
@@ -0,0 +1,84 @@
+import { projectLabel } from "./project";
+import type { ComposeInfo, DockerContainer, Listener } from "./types";
+
+// =====================
+// Grouping for the "Group by …" view modes
+// =====================
+export type GroupBy = "process" | "project";
+
+export type ListenerGroup = {
+  key: string;
+  title: string;
+  listeners: Listener[];
+  pids: number[];
+  ports: number[];
+  cpu?: number; // summed over distinct PIDs
+  memory?: number; // bytes, summed over distinct PIDs
+};
+
+function processTitle(l: Listener) {
+  return `${l.displayName || l.cmd} (PID ${l.pid})`;
+}
+
+/**
+ * Groups listeners by owning process or by detected project. Listeners without a project fall back to their process,
+ * and ports published by a container are grouped per container rather than under Docker's port proxy.
+ */
+export function groupListeners(listeners: Listener[], by: GroupBy): ListenerGroup[] {
+  const groups = new Map<string, ListenerGroup>();
+  for (const l of listeners) {
+    const byProject = by === "project" && l.project;
+    const key = l.container ? `container-${l.container.id}` : byProject ? `project-${l.project?.root}` : `pid-${l.pid}`;
+    let g = groups.get(key);
+    if (!g) {
+      const title = l.container
+        ? `${l.container.name} (${l.container.image})`
+        : (byProject && projectLabel(l)) || processTitle(l);
+      g = { key, title, listeners: [], pids: [], ports: [] };
+      groups.set(key, g);
+    }
+    g.listeners.push(l);
+    if (!g.ports.includes(l.port)) g.ports.push(l.port);
+    if (!g.pids.includes(l.pid)) {
+      g.pids.push(l.pid);
+      // Count each process once, however many ports it has. Docker's proxy usage says nothing about the container.
+      if (!l.container && l.cpu !== undefined) g.cpu = (g.cpu ?? 0) + l.cpu;
+      if (!l.container && l.memory !== undefined) g.memory = (g.memory ?? 0) + l.memory;
+    }
+  }
+  // Groups come out in the order of their first listener, so they follow the selected sort
+  return [...groups.values()];
+}
+
+export type ComposeProject = {
+  name: string;
+  compose: ComposeInfo; // of the first container; project-level fields are the same for all services
+  containers: DockerContainer[];
+};
+
+/**
+ * Splits containers into one entry per compose project and standalone containers. Projects and the containers
+ * in them keep the input order, so they follow the selected sort.
+ */
+export function groupContainersByCompose(containers: DockerContainer[]): {
+  projects: ComposeProject[];
+  standalone: DockerContainer[];
+} {
+  const projects = new Map<string, ComposeProject>();
+  const standalone: DockerContainer[] = [];
+  for (const c of containers) {
+    if (!c.compose) {
+      standalone.push(c);
+      continue;
+    }
+    // Same-named projects in two runtimes are different projects
+    const key = `${c.runtime ?? ""}:${c.compose.project}`;
+    let p = projects.get(key);
+    if (!p) {
+      p = { name: c.compose.project, compose: c.compose, containers: [] };
+      projects.set(key, p);
+    }
+    p.containers.push(c);
+  }
+  return { projects: [...projects.values()], standalone };
+}
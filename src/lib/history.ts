@@ -0,0 +1,102 @@
+import { containerMemory } from "./query";
+import type { DockerContainer, Listener } from "./types";
+
+// =====================
+// CPU / memory history (in memory, across refreshes)
+// =====================
+export type Sample = { at: number; cpu?: number; memory?: number };
+
+/** Samples per host PID ("pid:123") and per container ("ctr:<id>"), oldest first. */
+export type MetricsHistory = Map<string, Sample[]>;
+
+export type SeriesStats = { min: number; avg: number; max: number };
+
+// 30 samples at the 4s refresh interval is a two minute window
+export const HISTORY_SIZE = 30;
+// Growth is only reported once the window shows a trend rather than a couple of readings
+const GROWTH_MIN_SAMPLES = 10;
+const GROWTH_MIN_BYTES = 10 * 1024 * 1024;
+const GROWTH_MIN_RATIO = 0.1;
+const GROWTH_RISING_STEPS = 0.8;
+
+/** Container rows (and host rows published by a container) share the container's history. */
+export function historyKey(l: Listener) {
+  return l.container ? `ctr:${l.container.id}` : `pid:${l.pid}`;
+}
+
+export function containerHistoryKey(c: DockerContainer) {
+  return `ctr:${c.id}`;
+}
+
+/**
+ * Appends one sample per PID and container to a copy of `history`. PIDs and containers that are gone are
+ * dropped, so a reused PID starts with a fresh series.
+ */
+export function recordSamples(
+  history: MetricsHistory,
+  listeners: Listener[],
+  containers: DockerContainer[],
+  at = Date.now()
+): MetricsHistory {
+  const current = new Map<string, Sample>();
+  // A process listening on several ports is sampled once
+  for (const l of listeners) {
+    if (!l.container) current.set(historyKey(l), { at, cpu: l.cpu, memory: l.memory });
+  }
+  for (const c of containers) current.set(containerHistoryKey(c), { at, cpu: c.cpu, memory: containerMemory(c) });
+
+  const next: MetricsHistory = new Map();
+  for (const [key, sample] of current) {
+    if (sample.cpu === undefined && sample.memory === undefined) continue;
+    next.set(key, [...(history.get(key) ?? []), sample].slice(-HISTORY_SIZE));
+  }
+  return next;
+}
+
+export function seriesOf(samples: Sample[], metric: "cpu" | "memory"): number[] {
+  return samples.map((s) => s[metric]).filter((v): v is number => v !== undefined);
+}
+
+export function seriesStats(values: number[]): SeriesStats | undefined {
+  if (!values.length) return undefined;
+  const sum = values.reduce((a, b) => a + b, 0);
+  return { min: Math.min(...values), avg: sum / values.length, max: Math.max(...values) };
+}
+
+/**
+ * True when memory rose across (nearly) the whole window: enough samples, most steps going up, and a real
+ * increase from start to end. A single spike or a sawtooth from garbage collection does not count.
+ */
+export function isMemoryGrowing(samples: Sample[]): boolean {
+  const values = seriesOf(samples, "memory");
+  if (values.length < GROWTH_MIN_SAMPLES) return false;
+  const first = values[0];
+  const last = values[values.length - 1];
+  if (last - first < Math.max(GROWTH_MIN_BYTES, first * GROWTH_MIN_RATIO)) return false;
+  let rising = 0;
+  for (let i = 1; i < values.length; i++) if (values[i] >= values[i - 1]) rising++;
+  return rising / (values.length - 1) >= GROWTH_RISING_STEPS;
+}
+
+/** Markdown image of a line chart, as an inline SVG data URI. Needs at least two values. */
+export function sparkline(values: number[], color: string, width = 320, height = 48): string | undefined {
+  if (values.length < 2) return undefined;
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const span = max - min || 1;
+  const pad = 2;
+  const step = (width - pad * 2) / (HISTORY_SIZE - 1);
+  // Right-aligned, so a short series grows in from the right as samples arrive
+  const offset = (HISTORY_SIZE - values.length) * step + pad;
+  const points = values
+    .map(
+      (v, i) =>
+        `${(offset + i * step).toFixed(1)},${(height - pad - ((v - min) / span) * (height - pad * 2)).toFixed(1)}`
+    )
+    .join(" ");
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round" stroke-linecap="round"/>` +
+    `</svg>`;
+  return `![](data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")})`;
+}
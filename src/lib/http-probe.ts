@@ -0,0 +1,127 @@
+import http from "http";
+import https from "https";
+import type { HttpProbe, Listener } from "./types";
+import { parseHtmlTitle } from "./parsers";
+import { BUILTIN_SERVICES, mayServeHttp, type ServiceDef } from "./services";
+
+// =====================
+// HTTP(S) probing of TCP listeners
+// =====================
+const PROBE_TIMEOUT_MS = 800;
+const PROBE_TTL_MS = 30_000;
+// Enough to find <title> on any dev server page without downloading bundles
+const MAX_BODY_BYTES = 64 * 1024;
+
+const NOT_HTTP: HttpProbe = { isHttp: false, tls: false };
+
+// Results survive refreshes; a listener is re-probed at most every PROBE_TTL_MS
+const cache = new Map<string, { probe: HttpProbe; at: number }>();
+const inFlight = new Map<string, Promise<HttpProbe>>();
+
+export function probeKey(l: Pick<Listener, "pid" | "address" | "port" | "protocol">) {
+  return `${l.pid}-${l.address}-${l.port}-${l.protocol}`;
+}
+
+// Wildcard binds are reachable on loopback; pick the loopback of the same family
+function probeHost(address: string) {
+  if (address === "*" || address === "0.0.0.0") return "127.0.0.1";
+  if (address === "::") return "::1";
+  return address;
+}
+
+function request(host: string, port: number, tls: boolean): Promise<HttpProbe> {
+  return new Promise((resolve) => {
+    const lib = tls ? https : http;
+    let settled = false;
+    const done = (probe: HttpProbe) => {
+      if (settled) return;
+      settled = true;
+      req.destroy();
+      resolve(probe);
+    };
+    const req = lib.request(
+      {
+        host,
+        port,
+        path: "/",
+        method: "GET",
+        agent: false,
+        timeout: PROBE_TIMEOUT_MS,
+        headers: { Accept: "text/html,*/*", Connection: "close" },
+        // Dev certificates are usually self-signed; we only want to know whether TLS is spoken
+        rejectUnauthorized: false,
+      },
+      (res) => {
+        const base = {
+          isHttp: true,
+          tls,
+          status: res.statusCode,
+          server: typeof res.headers.server === "string" ? res.headers.server : undefined,
+        };
+        if (!String(res.headers["content-type"] || "").includes("html")) {
+          done(base);
+          return;
+        }
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          body += chunk;
+          if (body.length >= MAX_BODY_BYTES || /<\/title>/i.test(body)) done({ ...base, title: parseHtmlTitle(body) });
+        });
+        res.on("end", () => done({ ...base, title: parseHtmlTitle(body) }));
+        res.on("error", () => done({ ...base, title: parseHtmlTitle(body) }));
+      }
+    );
+    req.on("timeout", () => done(NOT_HTTP));
+    req.on("error", () => done(NOT_HTTP));
+    req.end();
+  });
+}
+
+/** Tries HTTPS first: plain-HTTP servers fail the handshake fast, while some TLS servers answer plain HTTP with a 400. */
+export async function probeHttp(address: string, port: number): Promise<HttpProbe> {
+  const host = probeHost(address);
+  const secure = await request(host, port, true);
+  if (secure.isHttp) return secure;
+  return request(host, port, false);
+}
+
+/**
+ * Probes every TCP listener whose cached result is missing or stale and resolves with the results for all of
+ * them, keyed by `probeKey`. Services the catalog knows to speak something else are left alone. Meant to run
+ * in the background after a refresh.
+ */
+export async function probeListeners(
+  listeners: Listener[],
+  catalog: ServiceDef[] = BUILTIN_SERVICES
+): Promise<Record<string, HttpProbe>> {
+  const now = Date.now();
+  const tcp = listeners.filter((l) => l.protocol === "tcp" && mayServeHttp(l, catalog));
+  await Promise.all(
+    tcp.map(async (l) => {
+      const key = probeKey(l);
+      const hit = cache.get(key);
+      if (hit && now - hit.at < PROBE_TTL_MS) return;
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = probeHttp(l.address, l.port).finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+      }
+      cache.set(key, { probe: await pending, at: Date.now() });
+    })
+  );
+
+  const out: Record<string, HttpProbe> = {};
+  const current = new Set(tcp.map(probeKey));
+  for (const [key, { probe }] of cache) {
+    if (current.has(key)) out[key] = probe;
+    else cache.delete(key);
+  }
+  return out;
+}
+
+/** The URL to open for a listener, or undefined when the probe found no web server on it. */
+export function listenerUrl(l: Listener): string | undefined {
+  if (l.protocol !== "tcp" || l.http?.isHttp === false) return undefined;
+  return `${l.http?.tls ? "https" : "http"}://localhost:${l.port}`;
+}
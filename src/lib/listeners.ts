@@ -0,0 +1,133 @@
+import pidusage from "pidusage";
+import { platform, type ProcessInfo } from "../platform";
+import { parseLstart } from "./parsers";
+import { attachProjects } from "./project";
+import type { Listener } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Enrichment pipeline
+// =====================
+// Every refresh costs one listener scan, one pidusage batch, and — only for PIDs we have not seen
+// before — one batched ps and one batched cwd lookup.
+
+type Usage = { cpu?: number; memory?: number; startMs?: number; ppid?: number };
+type StaticFacts = ProcessInfo & { cwd?: string };
+
+// ps reports elapsed time with one-second resolution
+const START_TOLERANCE_MS = 2000;
+
+// Exec path, cwd and start time never change for a running process, so they are cached per
+// (pid, start time). A reused PID has a different start time and misses the cache.
+const factsCache = new Map<number, { startMs: number; facts: StaticFacts }>();
+
+type RawStats = { cpu: number; memory: number; ppid: number; elapsed: number; timestamp: number };
+
+async function getUsage(pids: number[]): Promise<Record<number, Usage>> {
+  const out: Record<number, Usage> = {};
+  if (pids.length === 0) return out;
+  let stats: Record<number, RawStats | undefined>;
+  try {
+    stats = await pidusage(pids);
+  } catch {
+    // The batch fails as a whole when one PID exited since the listener scan; sample individually instead
+    const entries = await Promise.all(
+      pids.map((pid) =>
+        pidusage(pid).then(
+          (s) => [pid, s] as const,
+          () => [pid, undefined] as const
+        )
+      )
+    );
+    stats = Object.fromEntries(entries);
+  }
+  for (const pid of pids) {
+    const s = stats[pid];
+    out[pid] = s ? { cpu: s.cpu, memory: s.memory, startMs: s.timestamp - s.elapsed, ppid: s.ppid } : {};
+  }
+  return out;
+}
+
+async function getStaticFacts(pids: number[], usage: Record<number, Usage>): Promise<Map<number, StaticFacts>> {
+  const out = new Map<number, StaticFacts>();
+  const misses: number[] = [];
+  for (const pid of pids) {
+    const cached = factsCache.get(pid);
+    const startMs = usage[pid]?.startMs;
+    if (cached && startMs !== undefined && Math.abs(cached.startMs - startMs) <= START_TOLERANCE_MS) {
+      out.set(pid, cached.facts);
+    } else {
+      misses.push(pid);
+    }
+  }
+
+  // Forget processes that stopped listening
+  const current = new Set(pids);
+  for (const pid of factsCache.keys()) {
+    if (!current.has(pid)) factsCache.delete(pid);
+  }
+
+  if (misses.length === 0) return out;
+  const [infos, cwds] = await Promise.all([platform.getProcessInfo(misses), platform.getCwds(misses)]);
+  for (const pid of misses) {
+    const facts = { ...infos.get(pid), cwd: cwds.get(pid) };
+    out.set(pid, facts);
+    const startMs = usage[pid]?.startMs;
+    if (startMs !== undefined && infos.has(pid)) factsCache.set(pid, { startMs, facts });
+    else factsCache.delete(pid);
+  }
+  return out;
+}
+
+function resolveDisplayName(b: Listener, e: StaticFacts): string {
+  // Use the full command name from ps, fallback to lsof's abbreviated name
+  let displayName = e.fullCommand || basename(e.execPath) || b.cmd;
+
+  // If we still have a short abbreviated name, try to make it more readable
+  if (displayName && displayName.length <= 15 && !displayName.includes("/")) {
+    // Common macOS process name mappings
+    const nameMap: Record<string, string> = {
+      Spotify: "Spotify",
+      Sp: "Spotify",
+      Co: "Code",
+      Vi: "Visual Studio Code",
+      Go: "Google Chrome",
+      Ra: "Raycast",
+      On: "OneDrive",
+      sha: "sharingd",
+      Mi: "Microsoft Teams",
+      Library: "Library Agent",
+    };
+    displayName = nameMap[displayName] || displayName;
+  }
+  return displayName;
+}
+
+/** All host listeners with process details, resource usage and detected project, sorted by port. */
+export async function collectListeners(): Promise<Listener[]> {
+  const base = await platform.getListeners();
+  const pids = [...new Set(base.map((b) => b.pid))];
+  const usage = await getUsage(pids);
+  const factsByPid = await getStaticFacts(pids, usage);
+
+  const merged = base.map((b) => {
+    const s = usage[b.pid] || {};
+    const e = factsByPid.get(b.pid) || {};
+    return {
+      ...b,
+      cpu: s.cpu,
+      memory: s.memory,
+      ppid: s.ppid,
+      execPath: e.execPath,
+      cmdline: e.cmdline,
+      argv: e.argv,
+      cwd: e.cwd,
+      startedAt: e.startedAt,
+      startedMs: s.startMs ?? (e.startedAt ? parseLstart(e.startedAt) : undefined),
+      displayName: resolveDisplayName(b, e),
+    };
+  });
+
+  merged.sort((a, b) => a.port - b.port);
+  return attachProjects(merged);
+}
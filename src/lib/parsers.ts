@@ -0,0 +1,582 @@
+import type { ContainerInspect, DockerContainer, DockerPort, LogLine, ProcessEntry } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Pure parsers for command and /proc output. No I/O in this module.
+// =====================
+
+// =====================
+// lsof
+// =====================
+export type LsofRecord = {
+  pid?: number;
+  cmd?: string;
+  uid?: number;
+  user?: string;
+  names: string[]; // each 'n' line (address:port and state)
+  proto: "tcp" | "udp";
+};
+
+/** Parses `lsof -F` field output (one field per line, tagged by its first character) into per-process records. */
+export function parseLsofFields(stdout: string, proto: "tcp" | "udp"): LsofRecord[] {
+  const records: LsofRecord[] = [];
+  let current: LsofRecord | null = null;
+
+  for (const line of stdout.split("\n")) {
+    if (!line) continue;
+    const tag = line[0];
+    const val = line.slice(1);
+    if (tag === "p") {
+      if (current && (current.pid || current.cmd)) records.push(current);
+      current = { names: [], proto } as LsofRecord;
+      const pid = Number(val);
+      if (!Number.isNaN(pid)) current.pid = pid;
+    } else if (!current) {
+      continue;
+    } else {
+      switch (tag) {
+        case "c":
+          current.cmd = val;
+          break;
+        case "u": {
+          const uid = Number(val);
+          if (!Number.isNaN(uid)) current.uid = uid;
+          break;
+        }
+        case "L":
+          current.user = val;
+          break;
+        case "n":
+          current.names.push(val);
+          break;
+      }
+    }
+  }
+  if (current && (current.pid || current.cmd)) records.push(current);
+  return records;
+}
+
+/** Maps PID to the `n` field of `lsof -d cwd -Fn` output. */
+export function parseLsofCwds(stdout: string): Map<number, string> {
+  const out = new Map<number, string>();
+  let pid: number | undefined;
+  for (const line of stdout.split("\n")) {
+    if (line.startsWith("p")) pid = Number(line.slice(1));
+    else if (line.startsWith("n") && pid !== undefined && !Number.isNaN(pid)) out.set(pid, line.slice(1));
+  }
+  return out;
+}
+
+/** One TCP socket with both ends, from lsof or /proc; the raw material for connection views. */
+export type SocketRecord = {
+  pid?: number;
+  cmd?: string;
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: string; // e.g. "ESTABLISHED", "TIME_WAIT"
+};
+
+/**
+ * Parses `lsof -nP -iTCP:<port> -FpcnT` into connected sockets ("10.0.0.2:5432->10.0.0.9:60110" names with
+ * their TST= state). Listening sockets, which have no remote end, are left out.
+ */
+export function parseLsofConnections(stdout: string): SocketRecord[] {
+  const out: SocketRecord[] = [];
+  let pid: number | undefined;
+  let cmd: string | undefined;
+  let last: SocketRecord | undefined;
+  for (const line of stdout.split("\n")) {
+    if (!line) continue;
+    const val = line.slice(1);
+    switch (line[0]) {
+      case "p":
+        pid = Number(val);
+        cmd = undefined;
+        last = undefined;
+        break;
+      case "c":
+        cmd = val;
+        break;
+      case "n": {
+        last = undefined;
+        const [local, remote] = val.split("->");
+        const l = parseAddressPort(local ?? "");
+        const r = parseAddressPort(remote ?? "");
+        if (!l || !r) break;
+        last = {
+          pid,
+          cmd,
+          localAddress: l.address,
+          localPort: l.port,
+          remoteAddress: r.address,
+          remotePort: r.port,
+          state: "",
+        };
+        out.push(last);
+        break;
+      }
+      case "T":
+        if (last && val.startsWith("ST=")) last.state = val.slice(3);
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Splits an address:port pair. Handles "127.0.0.1:3000 (LISTEN)", "*:8080", "[::1]:3000",
+ * "[fe80::1%lo0]:5353" and the unbracketed "::1:53" form some tools print.
+ */
+export function parseAddressPort(nameLine: string): { address: string; port: number } | null {
+  const raw = nameLine.split(" ")[0]; // drop trailing state for TCP
+  const bracketed = raw.match(/^\[([^\]]+)\]:(\d+)$/);
+  if (bracketed) return { address: bracketed[1], port: Number(bracketed[2]) };
+  const lastColon = raw.lastIndexOf(":");
+  if (lastColon <= 0) return null;
+  const address = raw.slice(0, lastColon);
+  const portStr = raw.slice(lastColon + 1);
+  if (!/^\d+$/.test(portStr)) return null;
+  return { address, port: Number(portStr) };
+}
+
+// =====================
+// ps
+// =====================
+const LSTART_PATTERN = "[A-Z][a-z]{2}\\s[A-Z][a-z]{2}\\s+\\d+\\s+\\d{2}:\\d{2}:\\d{2}\\s+\\d{4}";
+const PS_LINE = new RegExp(`^\\s*(\\d+)\\s+(${LSTART_PATTERN})\\s+(.*)$`);
+
+export type PsInfo = {
+  pid: number;
+  execPath: string;
+  cmdline: string;
+  argv: string[]; // ps joins the arguments with spaces, so this is split on whitespace
+  startedAt: string; // lstart, e.g. "Mon Oct 13 09:12:44 2026"
+  fullCommand: string;
+};
+
+/** Parses one line of `ps -o pid=,lstart=,command=`. */
+export function parsePsLine(line: string): PsInfo | null {
+  const match = line.match(PS_LINE);
+  if (!match) return null;
+  const [, pidStr, lstart, execPlusArgs] = match;
+
+  // Split the full command to get executable path and arguments
+  const parts = execPlusArgs.trim().split(/\s+/);
+  const execPath = parts[0];
+  const cmdline = parts.slice(1).join(" ");
+
+  // Get the full command name from the executable path
+  const fullCommand = basename(execPath) || execPath;
+
+  return { pid: Number(pidStr), execPath, cmdline, argv: parts, startedAt: lstart.replace(/\s+/g, " "), fullCommand };
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Local-time timestamp of a `ps -o lstart=` string such as "Mon Oct 13 09:12:44 2026". */
+export function parseLstart(lstart: string): number | undefined {
+  const m = lstart.match(/^[A-Z][a-z]{2}\s+([A-Z][a-z]{2})\s+(\d+)\s+(\d{2}):(\d{2}):(\d{2})\s+(\d{4})$/);
+  const month = m ? MONTHS.indexOf(m[1]) : -1;
+  if (!m || month < 0) return undefined;
+  return new Date(Number(m[6]), month, Number(m[2]), Number(m[3]), Number(m[4]), Number(m[5])).getTime();
+}
+
+/** Same shape as `ps -o lstart=`, e.g. "Mon Oct 13 09:12:44 2026". */
+export function formatLstart(d: Date): string {
+  const [weekday, month, day, year] = d.toDateString().split(" ");
+  return `${weekday} ${month} ${Number(day)} ${d.toTimeString().slice(0, 8)} ${year}`;
+}
+
+const PS_TABLE_LINE = /^\s*(\d+)\s+(\d+)\s+(\d+)\s+(.*)$/;
+
+/** Parses one line of `ps -axo pid=,ppid=,pgid=,command=`. */
+export function parsePsTableLine(line: string): ProcessEntry | null {
+  const match = line.match(PS_TABLE_LINE);
+  if (!match) return null;
+  const [, pid, ppid, pgid, command] = match;
+  return { pid: Number(pid), ppid: Number(ppid), pgid: Number(pgid), command: command.trim() };
+}
+
+// =====================
+// /proc (Linux)
+// =====================
+export type ProcNetEntry = {
+  address: string;
+  port: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: string; // hex TCP state, e.g. "0A" = LISTEN
+  uid: number;
+  inode: number;
+};
+
+export function hexToIPv4(hex: string): string {
+  // Stored as one 32-bit word in host (little-endian) byte order
+  const bytes = [];
+  for (let i = hex.length - 2; i >= 0; i -= 2) bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  return bytes.join(".");
+}
+
+export function hexToIPv6(hex: string): string {
+  // Four 32-bit words, each in host byte order
+  const bytes: number[] = [];
+  for (let w = 0; w < 4; w++) {
+    const word = hex.slice(w * 8, w * 8 + 8);
+    for (let i = 6; i >= 0; i -= 2) bytes.push(parseInt(word.slice(i, i + 2), 16));
+  }
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i] << 8) | bytes[i + 1]);
+
+  // Compress the longest run of zero groups, as inet_ntop does
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < 8; i++) {
+    if (groups[i] !== 0) continue;
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen && j - i > 1) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+  const hexGroups = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hexGroups.join(":");
+  const head = hexGroups.slice(0, bestStart).join(":");
+  const tail = hexGroups.slice(bestStart + bestLen).join(":");
+  return `${head}::${tail}`;
+}
+
+// The st column of /proc/net/tcp, named the way lsof prints them
+export const TCP_STATES: Record<string, string> = {
+  "01": "ESTABLISHED",
+  "02": "SYN_SENT",
+  "03": "SYN_RECV",
+  "04": "FIN_WAIT_1",
+  "05": "FIN_WAIT_2",
+  "06": "TIME_WAIT",
+  "07": "CLOSED",
+  "08": "CLOSE_WAIT",
+  "09": "LAST_ACK",
+  "0A": "LISTEN",
+  "0B": "CLOSING",
+};
+
+/** Parses /proc/net/{tcp,udp}{,6}. Wildcard binds are reported as "*", matching lsof. */
+export function parseProcNet(content: string, v6: boolean): ProcNetEntry[] {
+  const toIp = v6 ? hexToIPv6 : hexToIPv4;
+  const entries: ProcNetEntry[] = [];
+  for (const line of content.split("\n").slice(1)) {
+    const cols = line.trim().split(/\s+/);
+    if (cols.length < 10) continue;
+    const [localHex, localPortHex] = cols[1].split(":");
+    const [remoteHex, remotePortHex] = cols[2].split(":");
+    const ip = toIp(localHex);
+    entries.push({
+      address: ip === "0.0.0.0" || ip === "::" ? "*" : ip,
+      port: parseInt(localPortHex, 16),
+      remoteAddress: toIp(remoteHex),
+      remotePort: parseInt(remotePortHex, 16),
+      state: cols[3],
+      uid: Number(cols[7]),
+      inode: Number(cols[9]),
+    });
+  }
+  return entries;
+}
+
+/** Parent PID and process group, fields 4 and 5 of /proc/<pid>/stat, plus the comm name. */
+export function parseProcStatIds(stat: string): { comm: string; ppid: number; pgid: number } | undefined {
+  const open = stat.indexOf("(");
+  const close = stat.lastIndexOf(")");
+  if (open < 0 || close < open) return undefined;
+  const [, ppid, pgid] = stat.slice(close + 2).split(" ");
+  if (ppid === undefined || pgid === undefined) return undefined;
+  return { comm: stat.slice(open + 1, close), ppid: Number(ppid), pgid: Number(pgid) };
+}
+
+/** Start time in clock ticks after boot, field 22 of /proc/<pid>/stat. */
+export function parseProcStatStartTicks(stat: string): number | undefined {
+  // comm may contain spaces or parens, so split after the last ")"
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const ticks = Number(fields[19]);
+  return Number.isNaN(ticks) ? undefined : ticks;
+}
+
+// =====================
+// docker
+// =====================
+function parsePortRange(s: string): number[] {
+  const m = s.match(/^(\d+)(?:-(\d+))?$/);
+  if (!m) return [];
+  const start = Number(m[1]);
+  const end = m[2] ? Number(m[2]) : start;
+  if (end < start) return [];
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+/**
+ * Parses the `Ports` column of `docker ps`. Ranges ("0.0.0.0:8000-8005->8000-8005/tcp") expand into one
+ * entry per port, and IPv6 binds may be written ":::5432->5432/tcp" or "[::]:5432->5432/tcp".
+ */
+export function parseDockerPorts(portsField: string): DockerPort[] {
+  if (!portsField) return [];
+  const out: DockerPort[] = [];
+  for (const entry of portsField.split(",").map((p) => p.trim())) {
+    if (!entry) continue;
+    const [left, right] = entry.includes("->") ? entry.split("->") : [undefined, entry];
+    const [contRange, proto = "tcp"] = right.split("/");
+    const containerPorts = parsePortRange(contRange);
+    if (containerPorts.length === 0) continue;
+    const protocol = proto.toLowerCase();
+
+    if (left === undefined) {
+      for (const containerPort of containerPorts) out.push({ containerPort, protocol });
+      continue;
+    }
+
+    const lastColon = left.lastIndexOf(":");
+    if (lastColon === -1) continue;
+    let hostIp = left.slice(0, lastColon).replace(/^\[(.*)\]$/, "$1");
+    if (hostIp === "*" || hostIp === "") hostIp = "0.0.0.0";
+    const hostPorts = parsePortRange(left.slice(lastColon + 1));
+    hostPorts.forEach((hostPort, i) => {
+      const containerPort = containerPorts.length === hostPorts.length ? containerPorts[i] : containerPorts[0];
+      out.push({ hostIp, hostPort, containerPort, protocol });
+    });
+  }
+  return out;
+}
+
+const PS_FIELDS = ["{{.ID}}", "{{.Image}}", "{{.Names}}", "{{.Ports}}", "{{.Status}}", "{{.State}}", "{{.CreatedAt}}"];
+const COMPOSE_LABELS = [
+  "com.docker.compose.project",
+  "com.docker.compose.service",
+  "com.docker.compose.project.working_dir",
+  "com.docker.compose.project.config_files",
+];
+
+// Compose labels are read one by one: the combined {{.Labels}} field is comma-separated, and
+// config_files itself can contain commas
+export const DOCKER_PS_FORMAT = [...PS_FIELDS, ...COMPOSE_LABELS.map((l) => `{{.Label "${l}"}}`)].join("\t");
+
+// Podman exposes labels as a map and has no {{.Label}} method; the columns are otherwise identical
+export const PODMAN_PS_FORMAT = [...PS_FIELDS, ...COMPOSE_LABELS.map((l) => `{{index .Labels "${l}"}}`)].join("\t");
+
+/** Parses one line of `docker ps --format DOCKER_PS_FORMAT` (or `podman ps --format PODMAN_PS_FORMAT`). */
+export function parseDockerPsLine(line: string): DockerContainer | null {
+  const [id, image, name, portsField, status, state, createdAt, project, service, workingDir, configFiles] = line
+    .trim()
+    .split("\t");
+  if (!id || !name) return null;
+  return {
+    id,
+    image,
+    name,
+    status,
+    state: state || undefined,
+    createdMs: parseDockerCreatedAt(createdAt || ""),
+    exitCode: parseDockerStatus(status || "").exitCode,
+    health: parseDockerHealth(status || ""),
+    ports: parseDockerPorts(portsField || ""),
+    compose: project
+      ? {
+          project,
+          service: service || name,
+          workingDir: workingDir || undefined,
+          configFiles: configFiles ? configFiles.split(",").filter(Boolean) : [],
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Timestamp of `{{.CreatedAt}}`: "2026-10-13 09:12:44 +0200 CEST" (docker, nerdctl) or with fractional
+ * seconds "2026-10-13 09:12:44.123456789 +0200 CEST" (podman).
+ */
+export function parseDockerCreatedAt(createdAt: string): number | undefined {
+  const m = createdAt.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})(?:\.\d+)? ([+-]\d{2})(\d{2})/);
+  if (!m) return undefined;
+  const ms = Date.parse(`${m[1]}T${m[2]}${m[3]}:${m[4]}`);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/**
+ * Splits a `docker ps` status into exit code and a lower-case timing phrase:
+ * "Exited (137) 3 hours ago" -> { exitCode: 137, summary: "exited 3 hours ago" }.
+ */
+export function parseDockerStatus(status: string): { exitCode?: number; summary: string } {
+  const exited = status.match(/^Exited \((-?\d+)\)\s*(.*)$/);
+  if (exited) return { exitCode: Number(exited[1]), summary: `exited ${exited[2]}`.trim() };
+  return { summary: status.charAt(0).toLowerCase() + status.slice(1) };
+}
+
+// =====================
+// docker logs
+// =====================
+// CSI sequences (colors, cursor movement), OSC sequences (titles, hyperlinks) and stray control characters
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]|[\x00-\x08\x0b-\x1f\x7f]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/** Parses one line of `docker logs --timestamps` ("2026-10-19T18:01:13.123456789Z message"). */
+export function parseDockerLogLine(raw: string, stream: LogLine["stream"]): LogLine {
+  const line = raw.replace(/\r$/, "");
+  const m = line.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})) ?(.*)$/);
+  if (!m) return { text: stripAnsi(line), stream };
+  const ms = Date.parse(m[1]);
+  return { time: m[1], ms: Number.isNaN(ms) ? undefined : ms, text: stripAnsi(m[2]), stream };
+}
+
+/** Parses both streams of `docker logs --timestamps` and interleaves them chronologically. */
+export function parseDockerLogs(stdout: string, stderr: string): LogLine[] {
+  const lines = [
+    ...stdout
+      .split("\n")
+      .filter(Boolean)
+      .map((l) => parseDockerLogLine(l, "stdout")),
+    ...stderr
+      .split("\n")
+      .filter(Boolean)
+      .map((l) => parseDockerLogLine(l, "stderr")),
+  ];
+  // Stable sort keeps each stream's own order for equal (or missing) timestamps
+  return lines.sort((a, b) => (a.ms ?? 0) - (b.ms ?? 0));
+}
+
+/** Health from the status suffix: "Up 5 minutes (unhealthy)", "Up 3 seconds (health: starting)". */
+export function parseDockerHealth(status: string): DockerContainer["health"] {
+  const m = status.match(/\((healthy|unhealthy|health: starting)\)/);
+  if (!m) return undefined;
+  return m[1] === "health: starting" ? "starting" : (m[1] as "healthy" | "unhealthy");
+}
+
+// =====================
+// docker inspect
+// =====================
+type RawInspect = {
+  Id?: string;
+  Name?: string;
+  Created?: string;
+  Config?: {
+    Image?: string;
+    Env?: string[] | null;
+    Entrypoint?: string[] | string | null;
+    Cmd?: string[] | string | null;
+    Labels?: Record<string, string> | null;
+  };
+  State?: {
+    Status?: string;
+    Health?: {
+      Status?: string;
+      FailingStreak?: number;
+      Log?: { Start?: string; ExitCode?: number; Output?: string }[] | null;
+    };
+  };
+  HostConfig?: { RestartPolicy?: { Name?: string; MaximumRetryCount?: number } };
+  NetworkSettings?: {
+    Networks?: Record<string, { IPAddress?: string; GlobalIPv6Address?: string; Gateway?: string }> | null;
+  };
+  Mounts?: { Type?: string; Name?: string; Source?: string; Destination?: string; RW?: boolean }[] | null;
+};
+
+function toArgv(v: string[] | string | null | undefined): string[] {
+  if (!v) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+/** Parses the JSON array printed by `docker inspect <id>` (first element). */
+export function parseDockerInspect(json: string): ContainerInspect | null {
+  let raw: RawInspect | undefined;
+  try {
+    raw = (JSON.parse(json) as RawInspect[])[0];
+  } catch {
+    return null;
+  }
+  if (!raw?.Id) return null;
+
+  const health = raw.State?.Health;
+  const restart = raw.HostConfig?.RestartPolicy;
+  let restartPolicy = restart?.Name || undefined;
+  if (restartPolicy === "on-failure" && restart?.MaximumRetryCount) {
+    restartPolicy = `on-failure:${restart.MaximumRetryCount}`;
+  }
+
+  return {
+    id: raw.Id,
+    name: (raw.Name || "").replace(/^\//, ""),
+    image: raw.Config?.Image || "",
+    created: raw.Created,
+    status: raw.State?.Status || "unknown",
+    health: health?.Status
+      ? {
+          status: health.Status,
+          failingStreak: health.FailingStreak ?? 0,
+          log: (health.Log || []).map((l) => ({
+            start: l.Start,
+            exitCode: l.ExitCode ?? 0,
+            output: stripAnsi(l.Output || "").trim(),
+          })),
+        }
+      : undefined,
+    networks: Object.entries(raw.NetworkSettings?.Networks || {}).map(([name, n]) => ({
+      name,
+      ip: n.IPAddress || undefined,
+      ipv6: n.GlobalIPv6Address || undefined,
+      gateway: n.Gateway || undefined,
+    })),
+    mounts: (raw.Mounts || []).map((m) => ({
+      type: m.Type || "bind",
+      name: m.Name || undefined,
+      source: m.Source || "",
+      destination: m.Destination || "",
+      readOnly: m.RW === false,
+    })),
+    env: (raw.Config?.Env || []).map((e) => {
+      const eq = e.indexOf("=");
+      return eq === -1 ? { key: e, value: "" } : { key: e.slice(0, eq), value: e.slice(eq + 1) };
+    }),
+    restartPolicy: restartPolicy === "no" ? undefined : restartPolicy,
+    entrypoint: toArgv(raw.Config?.Entrypoint),
+    cmd: toArgv(raw.Config?.Cmd),
+    labels: raw.Config?.Labels || {},
+  };
+}
+
+export const DOCKER_STATS_FORMAT = "{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}";
+
+/** Parses one line of `docker stats --no-stream --format DOCKER_STATS_FORMAT`. */
+export function parseDockerStatsLine(line: string): { name: string; cpu?: number; mem?: string } | null {
+  if (!line.trim()) return null;
+  const [name, cpuPerc, memUsage] = line.split("\t");
+  const cpu = cpuPerc?.endsWith("%") ? Number(cpuPerc.replace("%", "")) : undefined;
+  return { name, cpu: Number.isNaN(cpu) ? undefined : cpu, mem: memUsage };
+}
+
+// =====================
+// HTML
+// =====================
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+/** Text of the first <title> element, with whitespace collapsed and common entities decoded. */
+export function parseHtmlTitle(html: string): string | undefined {
+  const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (!m) return undefined;
+  const title = m[1]
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      if (Number.isNaN(n)) return entity;
+      // Same as browsers: NUL, lone surrogates and anything past U+10FFFF become U+FFFD
+      return n === 0 || n > 0x10ffff || (n >= 0xd800 && n <= 0xdfff) ? "\uFFFD" : String.fromCodePoint(n);
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return title || undefined;
+}
@@ -0,0 +1,102 @@
+import { createSocket } from "dgram";
+import { createServer } from "net";
+
+// =====================
+// Bind probe: is a port free?
+// =====================
+// Without root, lsof only sees this user's sockets. Binding the port ourselves also notices other users' and
+// the system's, so a port only counts as free when TCP and UDP accept a bind on every address below.
+
+export const MAX_FREE_PORTS = 100;
+
+export type PortQuery = { kind: "port"; port: number } | { kind: "range"; from: number; to: number };
+
+const isPort = (n: number) => Number.isInteger(n) && n >= 1 && n <= 65535;
+
+/** "3000", ":3000" or "3000-3100" (also "3000..3100"). */
+export function parsePortQuery(text: string): PortQuery | { error: string } {
+  const m = text.trim().match(/^:?(\d+)(?:\s*(?:-|\.\.)\s*(\d+))?$/);
+  if (!m) return { error: `"${text.trim()}" is not a port (3000) or a range (3000-3100)` };
+  const from = Number(m[1]);
+  const to = m[2] === undefined ? from : Number(m[2]);
+  if (!isPort(from) || !isPort(to)) return { error: "Ports go from 1 to 65535" };
+  if (m[2] === undefined) return { kind: "port", port: from };
+  if (to < from) return { error: `The range ends before it starts: ${from}-${to}` };
+  return { kind: "range", from, to };
+}
+
+/** "3000, 5432 :8080" -> [3000, 5432, 8080]; anything that is not a port is skipped. */
+export function parsePortList(text: string | undefined): number[] {
+  const ports = (text ?? "")
+    .split(/[\s,]+/)
+    .map((t) => Number(t.replace(/^:/, "")))
+    .filter(isPort);
+  return [...new Set(ports)];
+}
+
+// Loopback and all interfaces, each family on its own: a listener on 127.0.0.1 does not stop a bind to
+// 0.0.0.0 on macOS, and IPv6 binds are v6-only so an IPv4 listener is not reported twice
+const ADDRESSES = ["127.0.0.1", "0.0.0.0", "::1", "::"];
+
+export type BindCheck = {
+  free: boolean;
+  inUse: string[]; // e.g. "TCP 127.0.0.1", "UDP ::"
+  denied: boolean; // EACCES: a privileged port this user may not bind, so its state is unknown
+};
+
+// Resolves to the error code, or undefined when the bind worked
+function bindTcp(port: number, host: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const server = createServer();
+    server.once("error", (err: NodeJS.ErrnoException) => resolve(err.code ?? err.message));
+    server.listen({ port, host, ipv6Only: host.includes(":"), exclusive: true }, () =>
+      server.close(() => resolve(undefined))
+    );
+  });
+}
+
+function bindUdp(port: number, host: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const socket = createSocket({ type: host.includes(":") ? "udp6" : "udp4", ipv6Only: host.includes(":") });
+    socket.once("error", (err: NodeJS.ErrnoException) => {
+      socket.close();
+      resolve(err.code ?? err.message);
+    });
+    socket.bind({ port, address: host, exclusive: true }, () => socket.close(() => resolve(undefined)));
+  });
+}
+
+export async function checkPort(port: number): Promise<BindCheck> {
+  const inUse: string[] = [];
+  let denied = false;
+  for (const [proto, bind] of [
+    ["TCP", bindTcp],
+    ["UDP", bindUdp],
+  ] as const) {
+    for (const host of ADDRESSES) {
+      const code = await bind(port, host);
+      if (code === "EADDRINUSE") inUse.push(`${proto} ${host}`);
+      else if (code === "EACCES") denied = true;
+      // EADDRNOTAVAIL / EAFNOSUPPORT: no IPv6 on this machine, nothing to check
+    }
+  }
+  return { free: inUse.length === 0 && !denied, inUse, denied };
+}
+
+/**
+ * The first `count` free ports in from..to. Ports in `taken` (known listeners) are skipped without binding,
+ * which keeps long ranges quick.
+ */
+export async function findFreePorts(
+  from: number,
+  to: number,
+  count: number,
+  taken: Set<number> = new Set()
+): Promise<number[]> {
+  const out: number[] = [];
+  for (let port = from; port <= to && out.length < count; port++) {
+    if (taken.has(port)) continue;
+    if ((await checkPort(port)).free) out.push(port);
+  }
+  return out;
+}
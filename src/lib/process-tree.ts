@@ -0,0 +1,146 @@
+import type { ProcessEntry } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Process trees (built from platform.getProcessTable)
+// =====================
+export type ProcessTree = {
+  byPid: Map<number, ProcessEntry>;
+  children: Map<number, ProcessEntry[]>;
+};
+
+// Where a launch chain starts: walking up past these would reach the user's terminal or the whole session
+const SESSION_ROOTS = new Set([
+  "launchd",
+  "init",
+  "systemd",
+  "tmux",
+  "tmux: server",
+  "screen",
+  "zellij",
+  "sshd",
+  "login",
+  "Terminal",
+  "iTerm2",
+  "kitty",
+  "alacritty",
+  "wezterm-gui",
+  "ghostty",
+  "Raycast",
+]);
+const SHELLS = new Set(["sh", "bash", "zsh", "fish", "dash", "ksh", "tcsh", "nu", "pwsh"]);
+
+export function buildProcessTree(entries: ProcessEntry[]): ProcessTree {
+  const byPid = new Map(entries.map((e) => [e.pid, e]));
+  const children = new Map<number, ProcessEntry[]>();
+  for (const e of entries) {
+    if (e.ppid === e.pid) continue;
+    const siblings = children.get(e.ppid);
+    if (siblings) siblings.push(e);
+    else children.set(e.ppid, [e]);
+  }
+  for (const list of children.values()) list.sort((a, b) => a.pid - b.pid);
+  return { byPid, children };
+}
+
+/** Executable name of a command line; login shells ("-zsh") lose their dash. */
+export function processName(e: ProcessEntry) {
+  const first = e.command.split(" ")[0].replace(/^-/, "");
+  return basename(first) || first;
+}
+
+// An interactive shell (no -c script) is where the user typed the command, so it is never part of the chain
+function isBoundary(e: ProcessEntry) {
+  if (e.pid <= 1 || e.pid === process.pid || e.pid === process.ppid) return true;
+  const name = processName(e);
+  if (SESSION_ROOTS.has(name) || e.command.startsWith("/sbin/launchd")) return true;
+  return SHELLS.has(name) && !/\s-c\s/.test(` ${e.command} `);
+}
+
+/** Parents of `pid`, nearest first, up to and including the first session root or interactive shell. */
+export function getAncestry(tree: ProcessTree, pid: number): ProcessEntry[] {
+  const out: ProcessEntry[] = [];
+  const seen = new Set([pid]);
+  let current = tree.byPid.get(tree.byPid.get(pid)?.ppid ?? -1);
+  while (current && !seen.has(current.pid)) {
+    out.push(current);
+    if (isBoundary(current)) break;
+    seen.add(current.pid);
+    current = tree.byPid.get(current.ppid);
+  }
+  return out;
+}
+
+/** Every process below `pid`, parents before their children. */
+export function getDescendants(tree: ProcessTree, pid: number): ProcessEntry[] {
+  const out: ProcessEntry[] = [];
+  const queue = [...(tree.children.get(pid) ?? [])];
+  const seen = new Set([pid]);
+  while (queue.length) {
+    const e = queue.shift()!;
+    if (seen.has(e.pid)) continue;
+    seen.add(e.pid);
+    out.push(e);
+    queue.push(...(tree.children.get(e.pid) ?? []));
+  }
+  return out;
+}
+
+/**
+ * The script that launched `pid`, e.g. `npm run dev` above `sh -c vite` above `node vite`: the top-most
+ * ancestor below the user's shell. Undefined when the process was started directly from a shell.
+ */
+export function findLaunchRoot(tree: ProcessTree, pid: number): ProcessEntry | undefined {
+  const chain = getAncestry(tree, pid);
+  const last = chain[chain.length - 1];
+  const scripts = last && isBoundary(last) ? chain.slice(0, -1) : chain;
+  return scripts[scripts.length - 1];
+}
+
+/** Members of `pid`'s process group, or nothing when the group is a whole session and unsafe to signal. */
+export function getProcessGroup(tree: ProcessTree, pid: number): ProcessEntry[] {
+  const pgid = tree.byPid.get(pid)?.pgid;
+  if (pgid === undefined) return [];
+  const leader = tree.byPid.get(pgid);
+  if (pgid <= 1 || (leader && isBoundary(leader))) return [];
+  const members = [...tree.byPid.values()].filter((e) => e.pgid === pgid);
+  // Never include ourselves or Raycast
+  if (members.some((e) => e.pid === process.pid || e.pid === process.ppid)) return [];
+  return members.sort((a, b) => (a.pid === pgid ? -1 : b.pid === pgid ? 1 : a.pid - b.pid));
+}
+
+/** `root` and everything below it, root first so a supervisor cannot respawn what was already stopped. */
+export function getSubtree(tree: ProcessTree, root: number): ProcessEntry[] {
+  const self = tree.byPid.get(root);
+  return [...(self ? [self] : []), ...getDescendants(tree, root)];
+}
+
+function shorten(command: string, max = 80) {
+  return command.length > max ? `${command.slice(0, max - 1)}…` : command;
+}
+
+/** One line per process, e.g. for confirmation dialogs. */
+export function describeProcesses(entries: ProcessEntry[]) {
+  return entries.map((e) => `${e.pid}  ${shorten(e.command, 60)}`).join("\n");
+}
+
+/**
+ * Text drawing of the chain from the launching shell down to `pid` (marked with `marker`) and everything
+ * below it.
+ */
+export function formatTree(tree: ProcessTree, pid: number, marker: string): string {
+  const self = tree.byPid.get(pid);
+  if (!self) return "";
+  const chain = [...getAncestry(tree, pid)].reverse();
+  const lines: string[] = [];
+  const line = (e: ProcessEntry, depth: number, note = "") =>
+    lines.push(`${depth ? `${"   ".repeat(depth - 1)}└─ ` : ""}${shorten(e.command)} (${e.pid})${note}`);
+
+  chain.forEach((e, depth) => line(e, depth));
+  const walk = (e: ProcessEntry, depth: number) => {
+    line(e, depth, e.pid === pid ? `  ${marker}` : "");
+    for (const child of tree.children.get(e.pid) ?? []) walk(child, depth + 1);
+  };
+  walk(self, chain.length);
+  return lines.join("\n");
+}
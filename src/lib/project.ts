@@ -0,0 +1,218 @@
+import { readFile, stat } from "fs/promises";
+import { dirname, join } from "path";
+import type { Listener, ProjectInfo } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Project detection (walks up from the listener's cwd)
+// =====================
+const MANIFESTS = ["package.json", "pyproject.toml", "Gemfile", "go.mod", "Cargo.toml", "pom.xml", "build.gradle"];
+const PROJECT_TTL_MS = 30_000;
+const HOME = process.env.HOME || "";
+
+// Keyed by cwd + cmdline; the branch can change while a server runs, hence the TTL
+const cache = new Map<string, { project?: ProjectInfo; at: number }>();
+
+async function exists(p: string) {
+  try {
+    await stat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readText(p: string) {
+  try {
+    return await readFile(p, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/** Nearest directory at or above `cwd` holding a manifest, plus the enclosing git root (monorepos). */
+async function findRoots(cwd: string): Promise<{ root?: string; manifest?: string; gitRoot?: string }> {
+  let root: string | undefined;
+  let manifest: string | undefined;
+  let dir = cwd;
+  // Never treat / or the home folder itself as a project
+  while (dir !== "/" && dir !== HOME) {
+    if (!root) {
+      for (const m of MANIFESTS) {
+        if (await exists(join(dir, m))) {
+          root = dir;
+          manifest = m;
+          break;
+        }
+      }
+    }
+    if (await exists(join(dir, ".git"))) return { root: root || dir, manifest, gitRoot: dir };
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return { root, manifest };
+}
+
+async function readGitBranch(gitRoot: string): Promise<string | undefined> {
+  let gitDir = join(gitRoot, ".git");
+  // Worktrees and submodules have a .git file pointing at the real git dir
+  const pointer = await readText(gitDir);
+  const m = pointer?.match(/^gitdir:\s*(.+)$/m);
+  if (m) gitDir = m[1].startsWith("/") ? m[1].trim() : join(gitRoot, m[1].trim());
+  const head = (await readText(join(gitDir, "HEAD")))?.trim();
+  if (!head) return undefined;
+  const ref = head.match(/^ref: refs\/heads\/(.+)$/);
+  return ref ? ref[1] : head.slice(0, 7); // detached HEAD
+}
+
+// `name = "x"` inside the first of the given TOML tables
+function tomlName(toml: string, tables: string[]): string | undefined {
+  for (const table of tables) {
+    const start = toml.indexOf(`[${table}]`);
+    if (start === -1) continue;
+    const body = toml.slice(start).split(/\n\[/)[0];
+    const m = body.match(/^\s*name\s*=\s*["']([^"']+)["']/m);
+    if (m) return m[1];
+  }
+  return undefined;
+}
+
+async function readProjectName(root: string, manifest?: string): Promise<string | undefined> {
+  if (!manifest) return undefined;
+  const text = await readText(join(root, manifest));
+  if (!text) return undefined;
+  switch (manifest) {
+    case "package.json":
+      try {
+        const name = (JSON.parse(text) as { name?: unknown }).name;
+        return typeof name === "string" ? name : undefined;
+      } catch {
+        return undefined;
+      }
+    case "pyproject.toml":
+      return tomlName(text, ["project", "tool.poetry"]);
+    case "Cargo.toml":
+      return tomlName(text, ["package"]);
+    case "go.mod":
+      return basename(text.match(/^module\s+(\S+)/m)?.[1]);
+    case "pom.xml":
+      // The project's own artifactId follows the optional <parent> block
+      return text.replace(/<parent>[\s\S]*?<\/parent>/, "").match(/<artifactId>([^<]+)<\/artifactId>/)?.[1];
+  }
+  return undefined;
+}
+
+// Command-line patterns win over manifests: they tell what is actually running on this port
+const CMDLINE_FRAMEWORKS: [RegExp, string][] = [
+  [/\bnext(-server|\s+(dev|start))\b|next\/dist/, "Next.js"],
+  [/\bnuxi?\b/, "Nuxt"],
+  [/\bastro\b/, "Astro"],
+  [/\bremix\b/, "Remix"],
+  [/\bsvelte-kit\b/, "SvelteKit"],
+  [/\bvite\b/, "Vite"],
+  [/\bng\s+serve\b|@angular\/cli/, "Angular"],
+  [/\breact-scripts\b/, "Create React App"],
+  [/\bgatsby\b/, "Gatsby"],
+  [/\bwebpack(-dev-server|\s+serve)\b/, "webpack"],
+  [/\bnest\s+start\b/, "NestJS"],
+  [/\brails\s+(s|server)\b|\bpuma\b/, "Rails"],
+  [/manage\.py\s+runserver|\bdjango\b/, "Django"],
+  [/\bflask\b/, "Flask"],
+  [/\buvicorn\b|\bfastapi\b/, "FastAPI"],
+  [/\bspring-boot\b|org\.springframework/, "Spring"],
+  [/\bhugo\b/, "Hugo"],
+  [/\bjekyll\b/, "Jekyll"],
+];
+
+// Dependency name -> framework, most specific first
+const DEPENDENCY_FRAMEWORKS: [string, string][] = [
+  ["next", "Next.js"],
+  ["nuxt", "Nuxt"],
+  ["astro", "Astro"],
+  ["@remix-run/dev", "Remix"],
+  ["@sveltejs/kit", "SvelteKit"],
+  ["gatsby", "Gatsby"],
+  ["@angular/core", "Angular"],
+  ["react-scripts", "Create React App"],
+  ["@nestjs/core", "NestJS"],
+  ["vite", "Vite"],
+  ["express", "Express"],
+  ["fastify", "Fastify"],
+  ["koa", "Koa"],
+  ["rails", "Rails"],
+  ["sinatra", "Sinatra"],
+  ["django", "Django"],
+  ["flask", "Flask"],
+  ["fastapi", "FastAPI"],
+  // Maven and Gradle name the group: <groupId>org.springframework.boot</groupId>, "org.springframework.boot:…"
+  ["org.springframework.boot", "Spring"],
+  ["github.com/gin-gonic/gin", "Gin"],
+  ["github.com/labstack/echo", "Echo"],
+  ["github.com/gofiber/fiber", "Fiber"],
+  ["actix-web", "Actix"],
+  ["axum", "Axum"],
+  ["rocket", "Rocket"],
+];
+
+async function detectFramework(root: string, manifest?: string, cmdline?: string): Promise<string | undefined> {
+  if (cmdline) {
+    const hit = CMDLINE_FRAMEWORKS.find(([re]) => re.test(cmdline));
+    if (hit) return hit[1];
+  }
+  if (!manifest) return undefined;
+  const text = await readText(join(root, manifest));
+  if (!text) return undefined;
+
+  let deps: string[];
+  if (manifest === "package.json") {
+    try {
+      const pkg = JSON.parse(text) as Record<string, Record<string, string> | undefined>;
+      deps = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies });
+    } catch {
+      return undefined;
+    }
+    return DEPENDENCY_FRAMEWORKS.find(([dep]) => deps.includes(dep))?.[1];
+  }
+  // Text manifests: look for the dependency name as a whole word, also between XML tags and before a
+  // Maven/Gradle ":artifact"
+  return DEPENDENCY_FRAMEWORKS.find(([dep]) =>
+    new RegExp(`(^|[\\s"'/:>])${dep.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")}([\\s"'@=<>~,;:]|$)`, "mi").test(text)
+  )?.[1];
+}
+
+export async function detectProject(cwd: string, cmdline?: string): Promise<ProjectInfo | undefined> {
+  const key = `${cwd}\0${cmdline ?? ""}`;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < PROJECT_TTL_MS) return hit.project;
+
+  let project: ProjectInfo | undefined;
+  const { root, manifest, gitRoot } = await findRoots(cwd);
+  if (root) {
+    const [name, framework, branch] = await Promise.all([
+      readProjectName(root, manifest),
+      detectFramework(root, manifest, cmdline),
+      gitRoot ? readGitBranch(gitRoot) : Promise.resolve(undefined),
+    ]);
+    project = { root, name: name || basename(root) || root, framework, branch };
+  }
+  cache.set(key, { project, at: Date.now() });
+  return project;
+}
+
+/** Attaches `project` to every listener with a readable cwd. */
+export async function attachProjects(listeners: Listener[]): Promise<Listener[]> {
+  return Promise.all(
+    listeners.map(async (l) =>
+      l.cwd && l.cwd !== "/"
+        ? { ...l, project: await detectProject(l.cwd, `${l.execPath ?? ""} ${l.cmdline ?? ""}`) }
+        : l
+    )
+  );
+}
+
+/** "my-app (Next.js)", or undefined when no project was found. */
+export function projectLabel(l: Listener): string | undefined {
+  if (!l.project) return undefined;
+  return l.project.framework ? `${l.project.name} (${l.project.framework})` : l.project.name;
+}
@@ -0,0 +1,255 @@
+import type { DockerContainer, Listener } from "./types";
+
+// =====================
+// Search query language
+// =====================
+// Space-separated terms that all have to match. A term is free text or `field:value`; numeric fields also take
+// comparisons (`cpu>5`, `mem>=1gb`, `port<1024`). A leading "-" or "!" negates a term, and values with spaces
+// can be quoted: cwd:"~/My Projects".
+//
+//   port:3000  port:3000-3999  proto:udp  user:me  cmd:node  cwd:~/work/api  addr:public|local
+//   pid:1234   cpu>5           mem>500mb  image:postgres  project:api
+
+type Op = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+type Filter =
+  | { kind: "text"; value: string }
+  | { kind: "port"; min: number; max: number }
+  | { kind: "number"; field: "port" | "pid" | "cpu" | "mem"; op: Op; value: number }
+  | { kind: "proto"; value: "tcp" | "udp" }
+  | { kind: "addr"; value: string }
+  | { kind: "string"; field: "user" | "cmd" | "cwd" | "image" | "project"; value: string };
+
+export type QueryTerm = Filter & { negate: boolean; token: string };
+
+export type QueryError = { token: string; message: string };
+
+export type Query = { terms: QueryTerm[]; errors: QueryError[] };
+
+export type QueryContext = { currentUser: string; home: string };
+
+export const QUERY_FIELDS = ["port", "proto", "user", "cmd", "cwd", "addr", "pid", "cpu", "mem", "image", "project"];
+
+const NUMERIC_FIELDS = new Set(["port", "pid", "cpu", "mem"]);
+const TERM = /^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i;
+const SIZE = /^(\d+(?:\.\d+)?)\s*(b|k|kb|kib|m|mb|mib|g|gb|gib)?$/i;
+const SIZE_UNITS: Record<string, number> = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+// Splits on whitespace, keeping "quoted values" together and dropping the quotes
+function tokenize(input: string): string[] {
+  return (input.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? []).map((t) => t.replace(/"/g, ""));
+}
+
+/** "500mb" -> bytes. Plain numbers are megabytes, which is what people mean by `mem>500`. */
+export function parseSize(text: string): number | undefined {
+  const m = text.trim().match(SIZE);
+  if (!m) return undefined;
+  const unit = (m[2] ?? "m").toLowerCase()[0];
+  return Number(m[1]) * SIZE_UNITS[unit];
+}
+
+function parseFilter(field: string, op: Op, raw: string, ctx: QueryContext): Filter | string {
+  const value = raw.trim();
+  if (!value) return `${field} needs a value`;
+  if (!QUERY_FIELDS.includes(field)) return `Unknown filter "${field}". Try ${QUERY_FIELDS.join(", ")}`;
+  if (op !== ":" && !NUMERIC_FIELDS.has(field)) return `${field} only supports ${field}:value`;
+
+  switch (field) {
+    case "port": {
+      const range = value.match(/^(\d+)-(\d+)$/);
+      if (op === ":" && range) {
+        const [min, max] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+        return { kind: "port", min, max };
+      }
+      if (!/^\d+$/.test(value)) return "port takes a number or a range like 3000-3999";
+      return { kind: "number", field, op, value: Number(value) };
+    }
+    case "pid":
+      if (!/^\d+$/.test(value)) return "pid takes a number";
+      return { kind: "number", field, op, value: Number(value) };
+    case "cpu": {
+      const n = Number(value.replace(/%$/, ""));
+      if (Number.isNaN(n)) return "cpu takes a percentage, e.g. cpu>5";
+      return { kind: "number", field, op, value: n };
+    }
+    case "mem": {
+      const bytes = parseSize(value);
+      if (bytes === undefined) return "mem takes a size, e.g. mem>500mb or mem>1.5gb";
+      return { kind: "number", field, op, value: bytes };
+    }
+    case "proto": {
+      const proto = value.toLowerCase();
+      if (proto !== "tcp" && proto !== "udp") return "proto is tcp or udp";
+      return { kind: "proto", value: proto };
+    }
+    case "addr":
+      return { kind: "addr", value: value.toLowerCase() };
+    case "user":
+      return { kind: "string", field, value: value === "me" ? ctx.currentUser : value };
+    case "cwd":
+      return { kind: "string", field, value: value.replace(/^~(?=\/|$)/, ctx.home) };
+    default:
+      return { kind: "string", field: field as "cmd" | "image" | "project", value };
+  }
+}
+
+export function parseQuery(input: string, ctx: QueryContext): Query {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  for (const token of tokenize(input)) {
+    const negate = /^[-!]./.test(token);
+    const body = negate ? token.slice(1) : token;
+    const m = body.match(TERM);
+    // URLs and host:port ("localhost:3000") are text, not filters
+    const isText = m && !QUERY_FIELDS.includes(m[1].toLowerCase()) && /^(\/\/|\d+$)/.test(m[3]);
+    if (!m || isText) {
+      terms.push({ kind: "text", value: body.toLowerCase(), negate, token });
+      continue;
+    }
+    const parsed = parseFilter(m[1].toLowerCase(), m[2] as Op, m[3], ctx);
+    if (typeof parsed === "string") errors.push({ token, message: parsed });
+    else terms.push({ ...parsed, negate, token });
+  }
+  return { terms, errors };
+}
+
+// =====================
+// Matching
+// =====================
+const LOOPBACK = /^(127\.|::1$|localhost$|\[::1\]$)/;
+const WILDCARD = new Set(["*", "0.0.0.0", "::", "[::]", ""]);
+
+function compare(actual: number | undefined, op: Op, expected: number) {
+  if (actual === undefined) return false;
+  switch (op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchesAddress(address: string, value: string) {
+  if (value === "public" || value === "exposed") return !LOOPBACK.test(address);
+  if (value === "local" || value === "loopback" || value === "localhost") return LOOPBACK.test(address);
+  if (value === "any" || value === "all" || value === "*") return WILDCARD.has(address);
+  return address.toLowerCase().includes(value);
+}
+
+const includes = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+function listenerText(l: Listener) {
+  return [
+    `${l.address}:${l.port}`,
+    LOOPBACK.test(l.address) ? `localhost:${l.port}` : undefined,
+    String(l.port),
+    l.protocol,
+    String(l.pid),
+    l.user,
+    l.address,
+    l.displayName,
+    l.cmd,
+    l.execPath,
+    l.cmdline,
+    l.cwd,
+    l.project?.name,
+    l.project?.framework,
+    l.container?.name,
+    l.container?.image,
+    l.http?.title,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+function containerText(c: DockerContainer) {
+  return [
+    c.name,
+    c.image,
+    c.status,
+    c.compose?.project,
+    c.compose?.service,
+    ...c.ports.map((p) => (p.hostPort ? `:${p.hostPort} ${p.hostPort}` : "")),
+  ]
+    .join(" ")
+    .toLowerCase();
+}
+
+function matchListenerFilter(f: Filter, l: Listener, text: string): boolean {
+  switch (f.kind) {
+    case "text":
+      return text.includes(f.value);
+    case "port":
+      return l.port >= f.min && l.port <= f.max;
+    case "number": {
+      const actual = { port: l.port, pid: l.pid, cpu: l.cpu ?? l.container?.cpu, mem: l.memory }[f.field];
+      return compare(actual, f.op, f.value);
+    }
+    case "proto":
+      return l.protocol === f.value;
+    case "addr":
+      return matchesAddress(l.address, f.value);
+    case "string":
+      switch (f.field) {
+        case "user":
+          return l.user?.toLowerCase() === f.value.toLowerCase() || String(l.uid) === f.value;
+        case "cmd":
+          return [l.displayName, l.cmd, l.execPath, l.cmdline].some((v) => includes(v, f.value));
+        case "cwd":
+          return [l.cwd, l.project?.root].some((v) => includes(v, f.value));
+        case "image":
+          return includes(l.container?.image, f.value);
+        case "project":
+          return [l.project?.name, l.container?.compose?.project].some((v) => includes(v, f.value));
+      }
+  }
+}
+
+/** Bytes in use from docker stats' "123.4MiB / 7.6GiB". */
+export function containerMemory(c: DockerContainer) {
+  const used = c.mem?.split("/")[0].replace(/i?B$/i, "").trim();
+  return used ? parseSize(used) : undefined;
+}
+
+// Host-only fields (user, cwd, cmd, pid) never match a container
+function matchContainerFilter(f: Filter, c: DockerContainer, text: string): boolean {
+  switch (f.kind) {
+    case "text":
+      return text.includes(f.value);
+    case "port":
+      return c.ports.some((p) => p.hostPort !== undefined && p.hostPort >= f.min && p.hostPort <= f.max);
+    case "number":
+      if (f.field === "port") return c.ports.some((p) => compare(p.hostPort, f.op, f.value));
+      if (f.field === "cpu") return compare(c.cpu, f.op, f.value);
+      if (f.field === "mem") return compare(containerMemory(c), f.op, f.value);
+      return false;
+    case "proto":
+      return c.ports.some((p) => p.protocol === f.value);
+    case "addr":
+      return c.ports.some((p) => p.hostPort !== undefined && matchesAddress(p.hostIp ?? "", f.value));
+    case "string":
+      if (f.field === "image") return includes(c.image, f.value);
+      if (f.field === "project") return includes(c.compose?.project, f.value);
+      return false;
+  }
+}
+
+export function matchListener(q: Query, l: Listener) {
+  if (!q.terms.length) return true;
+  const text = listenerText(l);
+  return q.terms.every((t) => matchListenerFilter(t, l, text) !== t.negate);
+}
+
+export function matchContainer(q: Query, c: DockerContainer) {
+  if (!q.terms.length) return true;
+  const text = containerText(c);
+  return q.terms.every((t) => matchContainerFilter(t, c, text) !== t.negate);
+}
@@ -0,0 +1,134 @@
+import { execa } from "execa";
+import { existsSync } from "fs";
+import { mkdir, open } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { platform } from "../platform";
+import { stripAnsi } from "./parsers";
+import type { Listener } from "./types";
+
+// =====================
+// Relaunch (start a stopped listener again, detached, with its output in a log file)
+// =====================
+export type LaunchSpec = Pick<Listener, "port" | "protocol" | "cmd" | "cmdline" | "argv" | "execPath" | "cwd">;
+
+export type LaunchResult = {
+  pid: number;
+  logFile: string;
+  listening: boolean; // the port is taken again
+  exited: boolean; // the new process is already gone; its log says why
+};
+
+const POLL_MS = 500;
+// Dev servers may compile for a while before they bind
+export const LISTEN_TIMEOUT_MS = 20_000;
+// What the log viewer reads from the end of a log
+const LOG_TAIL_BYTES = 256 * 1024;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Plain words stay as they are; anything else is single-quoted
+function shellQuote(arg: string) {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * The command to run again, executable first. Records remembered before the full command line was kept only
+ * have the arguments, so the executable goes back in front of them.
+ */
+export function launchArgv(spec: LaunchSpec): string[] {
+  if (spec.argv?.length) return spec.argv;
+  return [spec.execPath || spec.cmd, ...(spec.cmdline?.split(/\s+/).filter(Boolean) ?? [])];
+}
+
+/** `launchArgv` as a shell command line, each argument quoted as needed. */
+export function launchCommandLine(spec: LaunchSpec) {
+  return launchArgv(spec).map(shellQuote).join(" ");
+}
+
+/** One log per port and command, overwritten by the next launch of the same server. */
+export function logFileFor(logDir: string, spec: LaunchSpec) {
+  const name = spec.cmd.replace(/[^\w.-]+/g, "_").slice(0, 40) || "process";
+  return join(logDir, `${spec.port}-${name}.log`);
+}
+
+function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Starts the command in its original working folder through the user's login shell (so PATH matches their
+ * terminal), detached from Raycast, with stdout and stderr appended to the log. Then waits up to `timeoutMs`
+ * for the port to be listened on again.
+ */
+export async function relaunch(
+  spec: LaunchSpec,
+  logDir: string,
+  timeoutMs = LISTEN_TIMEOUT_MS,
+  onProgress?: (status: string) => void
+): Promise<LaunchResult> {
+  const command = launchCommandLine(spec);
+  if (!command.trim()) throw new Error("The original command line is unknown");
+  const cwd = spec.cwd || homedir();
+  if (!existsSync(cwd)) throw new Error(`${cwd} no longer exists`);
+
+  await mkdir(logDir, { recursive: true });
+  const logFile = logFileFor(logDir, spec);
+  const log = await open(logFile, "w");
+  let pid: number | undefined;
+  try {
+    await log.write(`# ${new Date().toLocaleString()} in ${cwd}\n$ ${command}\n\n`);
+    const shell = process.env.SHELL || "/bin/sh";
+    // exec replaces the shell, so the PID we report is the server's own. The arguments are quoted, so
+    // paths with spaces and arguments like --title="My App" reach the server unchanged.
+    const subprocess = execa(shell, ["-lc", `exec ${command}`], {
+      cwd,
+      detached: true,
+      cleanup: false,
+      reject: false,
+      stdio: ["ignore", log.fd, log.fd],
+    });
+    subprocess.unref();
+    pid = subprocess.pid;
+  } finally {
+    await log.close();
+  }
+  if (!pid) throw new Error(`Could not start ${spec.cmd}`);
+
+  onProgress?.(`Started PID ${pid}, waiting for :${spec.port}…`);
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const holders = await platform.findPidsByPort(spec.port, spec.protocol).catch(() => []);
+    if (holders.length) return { pid, logFile, listening: true, exited: false };
+    if (!isRunning(pid)) return { pid, logFile, listening: false, exited: true };
+    if (Date.now() >= deadline) return { pid, logFile, listening: false, exited: false };
+    await sleep(POLL_MS);
+  }
+}
+
+/** The last lines of a launch log, ANSI codes stripped. Reads only the tail, since the log view polls it. */
+export async function readLaunchLog(logFile: string): Promise<string[]> {
+  const file = await open(logFile, "r");
+  let buf: Buffer;
+  try {
+    const { size } = await file.stat();
+    const start = Math.max(0, size - LOG_TAIL_BYTES);
+    buf = Buffer.alloc(size - start);
+    const { bytesRead } = await file.read(buf, 0, buf.length, start);
+    buf = buf.subarray(0, bytesRead);
+    // Mid-file, the first line (and maybe a UTF-8 sequence) is cut short; start at the next full line
+    if (start > 0) buf = buf.subarray(buf.indexOf(0x0a) + 1);
+  } finally {
+    await file.close();
+  }
+  return buf
+    .toString("utf8")
+    .split("\n")
+    .map((l) => stripAnsi(l.replace(/\r$/, "")))
+    .filter((l, i, all) => l || i < all.length - 1);
+}
@@ -0,0 +1,115 @@
+import { execa, type Options } from "execa";
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { RuntimeId } from "./types";
+
+// =====================
+// Container runtimes (docker / podman / nerdctl)
+// =====================
+export type RuntimePreference = "auto" | RuntimeId;
+
+export type RuntimeConfig = {
+  preferred: RuntimePreference;
+  dockerContext?: string; // docker --context, e.g. "colima" or "rancher-desktop"
+  dockerHost?: string; // DOCKER_HOST, e.g. "unix:///Users/me/.colima/default/docker.sock"
+};
+
+export type ContainerRuntime = {
+  id: RuntimeId;
+  label: string; // "Docker", "Docker (colima)", "Podman", "nerdctl"
+  path: string;
+  args: string[]; // global flags placed before every subcommand
+  env?: Record<string, string>;
+};
+
+export const RUNTIME_IDS: RuntimeId[] = ["docker", "podman", "nerdctl"];
+
+const RUNTIME_NAMES: Record<RuntimeId, string> = { docker: "Docker", podman: "Podman", nerdctl: "nerdctl" };
+
+// Raycast does not inherit the login shell's PATH; ~/.rd/bin is Rancher Desktop, /opt/podman/bin the Podman installer
+const BIN_DIRS = ["/usr/local/bin", "/opt/homebrew/bin", "/usr/bin", join(homedir(), ".rd", "bin"), "/opt/podman/bin"];
+
+// Each check talks to the daemon (or VM), so an installed CLI whose engine is stopped is not reported
+const CHECK_ARGS: Record<RuntimeId, string[]> = {
+  docker: ["version", "--format", "{{.Server.Version}}"],
+  podman: ["info", "--format", "{{.Version.Version}}"],
+  nerdctl: ["info", "--format", "{{.ServerVersion}}"],
+};
+
+// Detection spawns one CLI per runtime, so its result is reused across refreshes and actions. While nothing is
+// found it is retried sooner, so starting Docker Desktop or a Podman machine shows up without reopening.
+const FOUND_TTL_MS = 5 * 60_000;
+const MISSING_TTL_MS = 15_000;
+
+let cached: { key: string; at: number; runtimes: ContainerRuntime[] } | undefined;
+let pending: { key: string; promise: Promise<ContainerRuntime[]> } | undefined;
+
+export function runtimeName(id: RuntimeId) {
+  return RUNTIME_NAMES[id];
+}
+
+function findBinary(name: string) {
+  return BIN_DIRS.map((dir) => join(dir, name)).find((p) => existsSync(p));
+}
+
+function describe(id: RuntimeId, config: RuntimeConfig): Omit<ContainerRuntime, "path"> {
+  if (id !== "docker") return { id, label: RUNTIME_NAMES[id], args: [] };
+  // An explicit --context wins over DOCKER_HOST, matching the docker CLI itself
+  const context = config.dockerContext?.trim();
+  const host = config.dockerHost?.trim();
+  return {
+    id,
+    label: context ? `Docker (${context})` : "Docker",
+    args: context ? ["--context", context] : [],
+    env: host ? { DOCKER_HOST: host } : undefined,
+  };
+}
+
+async function probe(id: RuntimeId, config: RuntimeConfig): Promise<ContainerRuntime | null> {
+  const path = findBinary(id);
+  if (!path) return null;
+  const runtime = { ...describe(id, config), path };
+  try {
+    await runtimeExec(runtime, CHECK_ARGS[id], { timeout: 1500 });
+    return runtime;
+  } catch {
+    return null;
+  }
+}
+
+/** Runtimes whose engine answered, in docker/podman/nerdctl order. Cached; see FOUND_TTL_MS. */
+export async function detectRuntimes(config: RuntimeConfig): Promise<ContainerRuntime[]> {
+  const key = JSON.stringify(config);
+  if (cached?.key === key) {
+    const ttl = cached.runtimes.length ? FOUND_TTL_MS : MISSING_TTL_MS;
+    if (Date.now() - cached.at < ttl) return cached.runtimes;
+  }
+  // Overlapping refreshes share one detection instead of spawning the CLIs twice
+  if (pending?.key === key) return pending.promise;
+
+  const ids = config.preferred === "auto" ? RUNTIME_IDS : [config.preferred];
+  const promise = Promise.all(ids.map((id) => probe(id, config))).then((found) => {
+    const runtimes = found.filter((r): r is ContainerRuntime => r !== null);
+    cached = { key, at: Date.now(), runtimes };
+    return runtimes;
+  });
+  pending = { key, promise };
+  try {
+    return await promise;
+  } finally {
+    if (pending?.promise === promise) pending = undefined;
+  }
+}
+
+/** The detected runtime with this id (docker when unset); throws when it is not, or no longer, available. */
+export function getRuntime(id: RuntimeId = "docker"): ContainerRuntime {
+  const runtime = cached?.runtimes.find((r) => r.id === id);
+  if (!runtime) throw new Error(`${RUNTIME_NAMES[id]} not available`);
+  return runtime;
+}
+
+/** Runs the runtime's CLI with its global flags and environment applied. */
+export function runtimeExec(runtime: ContainerRuntime, args: string[], options: Options = {}) {
+  return execa(runtime.path, [...runtime.args, ...args], { ...options, env: { ...options.env, ...runtime.env } });
+}
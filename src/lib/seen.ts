@@ -0,0 +1,101 @@
+import type { Listener, ProjectInfo } from "./types";
+
+// =====================
+// Seen listeners (persisted by the command, so servers that went away can still be looked up)
+// =====================
+export type SeenListener = {
+  key: string;
+  port: number;
+  protocol: "tcp" | "udp";
+  address: string;
+  pid: number; // the last PID seen on this port
+  cmd: string;
+  displayName?: string;
+  cmdline?: string;
+  argv?: string[];
+  execPath?: string;
+  cwd?: string;
+  user?: string;
+  uid?: number;
+  project?: ProjectInfo;
+  firstSeen: number;
+  lastSeen: number;
+};
+
+// Oldest records are dropped beyond this
+export const MAX_SEEN = 300;
+
+/**
+ * The same server restarted on the same port is one record, whatever its PID. IPv4 and IPv6 binds of one
+ * port share a record too.
+ */
+export function seenKey(l: Pick<Listener, "protocol" | "port" | "cmd" | "cwd">) {
+  return `${l.protocol}:${l.port}:${l.cmd}:${l.cwd ?? ""}`;
+}
+
+/** Records every listener in `live` as seen at `now`, keeping first-seen times and the `MAX_SEEN` newest records. */
+export function mergeSeen(records: SeenListener[], live: Listener[], now = Date.now()): SeenListener[] {
+  const byKey = new Map(records.map((r) => [r.key, r]));
+  for (const l of live) {
+    const key = seenKey(l);
+    const previous = byKey.get(key);
+    byKey.set(key, {
+      key,
+      port: l.port,
+      protocol: l.protocol,
+      address: l.address,
+      pid: l.pid,
+      cmd: l.cmd,
+      displayName: l.displayName,
+      cmdline: l.cmdline,
+      argv: l.argv,
+      execPath: l.execPath,
+      cwd: l.cwd,
+      user: l.user,
+      uid: l.uid,
+      project: l.project ?? previous?.project,
+      // A record that was closed and came back starts over
+      firstSeen: previous && isLive(previous, now) ? previous.firstSeen : now,
+      lastSeen: now,
+    });
+  }
+  return [...byKey.values()].sort((a, b) => b.lastSeen - a.lastSeen).slice(0, MAX_SEEN);
+}
+
+// Seen within the last minute, i.e. the server kept running since the previous record
+function isLive(r: SeenListener, now: number, slackMs = 60_000) {
+  return now - r.lastSeen <= slackMs;
+}
+
+/** Records that are not listening any more and were last seen within `windowMs`, most recently closed first. */
+export function recentlyClosed(records: SeenListener[], live: Listener[], windowMs: number, now = Date.now()) {
+  const liveKeys = new Set(live.map(seenKey));
+  return records
+    .filter((r) => !liveKeys.has(r.key) && now - r.lastSeen <= windowMs)
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+/** A record as a listener row, so search filters and system-process rules apply to it unchanged. */
+export function seenAsListener(r: SeenListener): Listener {
+  const { port, protocol, address, pid, cmd, displayName, cmdline, argv, execPath, cwd, user, uid, project } = r;
+  return { port, protocol, address, pid, cmd, displayName, cmdline, argv, execPath, cwd, user, uid, project };
+}
+
+/** Parses what the command stored, dropping anything that does not look like a record. */
+export function parseSeen(json: string | undefined): SeenListener[] {
+  if (!json) return [];
+  try {
+    const data: unknown = JSON.parse(json);
+    if (!Array.isArray(data)) return [];
+    return data.filter(
+      (r): r is SeenListener =>
+        typeof r === "object" &&
+        r !== null &&
+        typeof r.key === "string" &&
+        typeof r.port === "number" &&
+        typeof r.lastSeen === "number"
+    );
+  } catch {
+    return [];
+  }
+}
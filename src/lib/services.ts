@@ -0,0 +1,353 @@
+import type { DockerContainer, Listener } from "./types";
+import { basename } from "./utils";
+
+// =====================
+// Well-known services (identified by container image, process name, then port)
+// =====================
+// Templates may use {host}, {port} and {user}. User entries from the catalog file take precedence.
+
+export type ServiceDef = {
+  name: string;
+  ports?: number[]; // where it listens (inside the container for images); any port when unset
+  processes?: string[]; // executable names, e.g. "postgres", "redis-server"
+  images?: string[]; // image names without registry or tag, e.g. "postgres", "bitnami/redis"
+  http?: boolean; // its ports speak HTTP, so "Open in Browser" makes sense
+  url?: string; // connection URL, e.g. "postgres://{user}@{host}:{port}/postgres"
+  cli?: string; // command to connect from a terminal, e.g. "psql -h {host} -p {port}"
+  adminPort?: number; // web UI, e.g. 15672 for RabbitMQ
+  adminPath?: string;
+  user?: string; // {user}; the macOS user when unset
+  containerUser?: string; // {user} in the official image, e.g. "postgres"
+};
+
+export type ServiceMatch = {
+  service: ServiceDef;
+  isAdmin: boolean; // this row is the service's web UI, not its main port
+  url?: string;
+  cli?: string;
+  adminUrl?: string;
+};
+
+export const BUILTIN_SERVICES: ServiceDef[] = [
+  {
+    name: "PostgreSQL",
+    ports: [5432],
+    processes: ["postgres", "postmaster"],
+    images: ["postgres", "postgis/postgis", "bitnami/postgresql", "timescale/timescaledb", "pgvector/pgvector"],
+    url: "postgres://{user}@{host}:{port}/postgres",
+    cli: "psql -h {host} -p {port} -U {user} postgres",
+    containerUser: "postgres",
+  },
+  {
+    name: "MySQL",
+    ports: [3306],
+    processes: ["mysqld"],
+    images: ["mysql", "bitnami/mysql"],
+    url: "mysql://{user}@{host}:{port}",
+    cli: "mysql -h 127.0.0.1 -P {port} -u {user} -p",
+    containerUser: "root",
+  },
+  {
+    name: "MariaDB",
+    ports: [3306],
+    processes: ["mariadbd"],
+    images: ["mariadb", "bitnami/mariadb"],
+    url: "mysql://{user}@{host}:{port}",
+    cli: "mariadb -h 127.0.0.1 -P {port} -u {user} -p",
+    containerUser: "root",
+  },
+  {
+    name: "Redis",
+    ports: [6379],
+    processes: ["redis-server", "valkey-server"],
+    images: ["redis", "valkey/valkey", "bitnami/redis", "redis/redis-stack", "redis/redis-stack-server"],
+    url: "redis://{host}:{port}",
+    cli: "redis-cli -h {host} -p {port}",
+  },
+  {
+    name: "MongoDB",
+    ports: [27017],
+    processes: ["mongod"],
+    images: ["mongo", "mongodb/mongodb-community-server", "bitnami/mongodb"],
+    url: "mongodb://{host}:{port}",
+    cli: "mongosh mongodb://{host}:{port}",
+  },
+  {
+    name: "Elasticsearch",
+    ports: [9200],
+    processes: ["elasticsearch"],
+    images: ["elasticsearch", "elasticsearch/elasticsearch", "bitnami/elasticsearch"],
+    http: true,
+    url: "http://{host}:{port}",
+    cli: "curl http://{host}:{port}/_cluster/health?pretty",
+  },
+  {
+    name: "OpenSearch",
+    ports: [9200],
+    images: ["opensearchproject/opensearch"],
+    http: true,
+    url: "https://{host}:{port}",
+    cli: "curl -k https://{host}:{port}/_cluster/health?pretty",
+  },
+  {
+    name: "RabbitMQ",
+    // Not by process: beam.smp is the Erlang VM and runs Phoenix and other Elixir web servers too
+    ports: [5672],
+    images: ["rabbitmq", "bitnami/rabbitmq"],
+    url: "amqp://guest:guest@{host}:{port}",
+    cli: "rabbitmqctl status",
+    adminPort: 15672,
+  },
+  {
+    name: "Kafka",
+    ports: [9092],
+    images: ["apache/kafka", "confluentinc/cp-kafka", "bitnami/kafka", "redpandadata/redpanda"],
+    url: "{host}:{port}",
+    cli: "kafka-topics --bootstrap-server {host}:{port} --list",
+  },
+  {
+    name: "MinIO",
+    ports: [9000],
+    processes: ["minio"],
+    images: ["minio/minio", "bitnami/minio"],
+    http: true,
+    url: "http://{host}:{port}",
+    cli: "mc alias set local http://{host}:{port} minioadmin minioadmin",
+    adminPort: 9001,
+  },
+  {
+    name: "MailHog",
+    ports: [1025],
+    processes: ["MailHog", "mailhog"],
+    images: ["mailhog/mailhog"],
+    url: "smtp://{host}:{port}",
+    adminPort: 8025,
+  },
+  {
+    name: "Mailpit",
+    ports: [1025],
+    processes: ["mailpit"],
+    images: ["axllent/mailpit"],
+    url: "smtp://{host}:{port}",
+    adminPort: 8025,
+  },
+  {
+    name: "Memcached",
+    ports: [11211],
+    processes: ["memcached"],
+    images: ["memcached", "bitnami/memcached"],
+    url: "{host}:{port}",
+    cli: "nc {host} {port}",
+  },
+  {
+    name: "NATS",
+    ports: [4222],
+    processes: ["nats-server"],
+    images: ["nats"],
+    url: "nats://{host}:{port}",
+    cli: "nats -s nats://{host}:{port} server check connection",
+    adminPort: 8222,
+  },
+  {
+    name: "CockroachDB",
+    ports: [26257],
+    processes: ["cockroach"],
+    images: ["cockroachdb/cockroach"],
+    url: "postgres://root@{host}:{port}/defaultdb?sslmode=disable",
+    cli: "cockroach sql --insecure --host={host}:{port}",
+    adminPort: 8080,
+  },
+  {
+    name: "Neo4j",
+    ports: [7687],
+    images: ["neo4j"],
+    url: "bolt://{host}:{port}",
+    cli: "cypher-shell -a bolt://{host}:{port}",
+    adminPort: 7474,
+  },
+  {
+    name: "ClickHouse",
+    ports: [8123],
+    processes: ["clickhouse-server", "clickhouse"],
+    images: ["clickhouse/clickhouse-server", "clickhouse"],
+    http: true,
+    url: "http://{host}:{port}",
+    cli: "clickhouse client --host {host}",
+  },
+  {
+    name: "CouchDB",
+    ports: [5984],
+    images: ["couchdb", "apache/couchdb"],
+    http: true,
+    url: "http://{host}:{port}",
+    adminPort: 5984,
+    adminPath: "/_utils",
+  },
+  {
+    name: "InfluxDB",
+    ports: [8086],
+    processes: ["influxd"],
+    images: ["influxdb"],
+    http: true,
+    url: "http://{host}:{port}",
+    cli: "influx ping --host http://{host}:{port}",
+  },
+];
+
+// "docker.io/library/postgres:16" -> "postgres", "ghcr.io/bitnami/redis@sha256:…" -> "bitnami/redis"
+export function imageBaseName(image: string) {
+  const withoutTag = image.replace(/@.*$/, "").replace(/:[^/]*$/, "");
+  const parts = withoutTag.split("/");
+  // A first part with a dot or port is a registry
+  if (parts.length > 1 && /[.:]|^localhost$/.test(parts[0])) parts.shift();
+  if (parts[0] === "library") parts.shift();
+  return parts.join("/").toLowerCase();
+}
+
+type TemplateValues = { host: string; port: number; user: string };
+
+export function fillTemplate(template: string, values: TemplateValues) {
+  return template.replace(/\{(host|port|user)\}/g, (_, key: keyof TemplateValues) => String(values[key]));
+}
+
+function adminUrl(service: ServiceDef, hostPort: number | undefined) {
+  return hostPort !== undefined ? `http://localhost:${hostPort}${service.adminPath ?? ""}` : undefined;
+}
+
+function buildMatch(service: ServiceDef, port: number, user: string, adminHostPort?: number): ServiceMatch {
+  const values = { host: "localhost", port, user };
+  return {
+    service,
+    isAdmin: false,
+    url: service.url ? fillTemplate(service.url, values) : undefined,
+    cli: service.cli ? fillTemplate(service.cli, values) : undefined,
+    adminUrl: adminUrl(service, adminHostPort),
+  };
+}
+
+// The web UI's own row only opens the web UI
+function adminMatch(service: ServiceDef, hostPort: number): ServiceMatch {
+  return { service, isAdmin: true, adminUrl: adminUrl(service, hostPort) };
+}
+
+function byImage(c: DockerContainer, catalog: ServiceDef[]) {
+  const image = imageBaseName(c.image);
+  return catalog.find((s) => s.images?.some((i) => i.toLowerCase() === image));
+}
+
+function byListener(l: Listener, catalog: ServiceDef[]) {
+  const names = [l.cmd, l.displayName, basename(l.execPath)].filter((n): n is string => !!n);
+  return (
+    catalog.find((s) => s.processes?.some((p) => names.includes(p))) ?? catalog.find((s) => s.ports?.includes(l.port))
+  );
+}
+
+/**
+ * The service behind a host listener. A known process name wins over the port, so a Node app that happens to
+ * use 5432 is only taken for Postgres when nothing better is known. `listening` is every port in use, so the
+ * web UI is offered only while it is up.
+ */
+export function identifyListener(
+  l: Listener,
+  catalog: ServiceDef[],
+  currentUser: string,
+  listening: Set<number>
+): ServiceMatch | undefined {
+  if (l.container) return identifyContainerPort(l.container, l.port, catalog);
+  const service = byListener(l, catalog);
+  if (!service) return undefined;
+  if (service.adminPort === l.port && !service.ports?.includes(l.port)) return adminMatch(service, l.port);
+  // Other ports of a known process (cluster transport, metrics) get no connection actions
+  if (service.ports && !service.ports.includes(l.port)) return undefined;
+  const admin = service.adminPort !== undefined && listening.has(service.adminPort) ? service.adminPort : undefined;
+  return buildMatch(service, l.port, service.user ?? currentUser, admin);
+}
+
+// A host row held by Docker's port proxy, judged by the port inside the container
+function identifyContainerPort(c: DockerContainer, hostPort: number, catalog: ServiceDef[]) {
+  const service = byImage(c, catalog);
+  const containerPort = c.ports.find((p) => p.hostPort === hostPort)?.containerPort;
+  if (!service || containerPort === undefined) return undefined;
+  if (service.adminPort === containerPort && !service.ports?.includes(containerPort)) {
+    return adminMatch(service, hostPort);
+  }
+  if (service.ports && !service.ports.includes(containerPort)) return undefined;
+  const admin = c.ports.find((p) => p.hostPort && p.containerPort === service.adminPort)?.hostPort;
+  return buildMatch(service, hostPort, service.containerUser ?? service.user ?? "root", admin);
+}
+
+/** The service a container runs, connected through the host port its main port is published on. */
+export function identifyContainer(c: DockerContainer, catalog: ServiceDef[]): ServiceMatch | undefined {
+  const service = byImage(c, catalog);
+  if (!service) return undefined;
+  const main = c.ports.find((p) => p.hostPort && (!service.ports || service.ports.includes(p.containerPort)));
+  const admin = c.ports.find((p) => p.hostPort && p.containerPort === service.adminPort)?.hostPort;
+  if (!main?.hostPort) return { service, isAdmin: false, adminUrl: adminUrl(service, admin) };
+  return buildMatch(service, main.hostPort, service.containerUser ?? service.user ?? "root", admin);
+}
+
+/** Published ports worth opening in a browser: everything except the main ports of a known non-HTTP service. */
+export function isBrowsablePort(containerPort: number, match: ServiceMatch | undefined) {
+  if (!match || match.service.http) return true;
+  if (containerPort === match.service.adminPort) return true;
+  return !match.service.ports?.includes(containerPort);
+}
+
+/**
+ * False for a known service that does not speak HTTP (databases, brokers), so it never gets an HTTP request:
+ * Redis, for one, logs each as a possible attack.
+ */
+export function mayServeHttp(l: Listener, catalog: ServiceDef[]) {
+  if (l.container) {
+    const published = l.container.ports.find((p) => p.hostPort === l.port);
+    return !published || isBrowsablePort(published.containerPort, identifyContainer(l.container, catalog));
+  }
+  const service = byListener(l, catalog);
+  return !service || !!service.http || service.adminPort === l.port;
+}
+
+/**
+ * Parses the user's catalog file: a JSON array of service entries. Entries without a name or anything to
+ * identify them by are skipped and reported.
+ */
+export function parseServiceCatalog(json: string): { services: ServiceDef[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err: unknown) {
+    return { services: [], errors: [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const list = Array.isArray(data) ? data : (data as { services?: unknown })?.services;
+  if (!Array.isArray(list)) return { services: [], errors: ["Expected an array of services"] };
+
+  const services: ServiceDef[] = [];
+  const errors: string[] = [];
+  const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : undefined);
+  const numbers = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is number => Number.isInteger(x)) : undefined);
+  const text = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+  list.forEach((raw: Record<string, unknown>, i) => {
+    if (typeof raw !== "object" || raw === null || typeof raw.name !== "string" || !raw.name) {
+      errors.push(`Entry ${i + 1} has no name`);
+      return;
+    }
+    const service: ServiceDef = {
+      name: raw.name,
+      ports: numbers(raw.ports),
+      processes: strings(raw.processes),
+      images: strings(raw.images)?.map(imageBaseName),
+      http: raw.http === true,
+      url: text(raw.url),
+      cli: text(raw.cli),
+      adminPort: Number.isInteger(raw.adminPort) ? (raw.adminPort as number) : undefined,
+      adminPath: text(raw.adminPath),
+      user: text(raw.user),
+      containerUser: text(raw.containerUser),
+    };
+    if (!service.ports?.length && !service.processes?.length && !service.images?.length) {
+      errors.push(`${service.name} needs ports, processes or images to be recognized`);
+      return;
+    }
+    services.push(service);
+  });
+  return { services, errors };
+}
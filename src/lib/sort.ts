@@ -0,0 +1,82 @@
+import { containerMemory } from "./query";
+import type { DockerContainer, Listener } from "./types";
+
+// =====================
+// Sorting (host listeners and containers share one sort mode)
+// =====================
+export type SortMode = "port" | "cpu" | "memory" | "uptime" | "name" | "recent";
+
+export const SORT_MODES: { value: SortMode; title: string }[] = [
+  { value: "port", title: "Sort by Port" },
+  { value: "cpu", title: "Sort by CPU" },
+  { value: "memory", title: "Sort by Memory" },
+  { value: "uptime", title: "Sort by Uptime (Longest First)" },
+  { value: "recent", title: "Sort by Most Recently Started" },
+  { value: "name", title: "Sort by Process Name" },
+];
+
+// Unknown values always sort last, whichever direction the mode sorts in
+function byNumber<T>(get: (x: T) => number | undefined, descending: boolean) {
+  return (a: T, b: T) => {
+    const x = get(a);
+    const y = get(b);
+    if (x === undefined || y === undefined) return (x === undefined ? 1 : 0) - (y === undefined ? 1 : 0);
+    return descending ? y - x : x - y;
+  };
+}
+
+const byPort = (a: Listener, b: Listener) => a.port - b.port;
+
+function listenerCompare(mode: SortMode): (a: Listener, b: Listener) => number {
+  switch (mode) {
+    case "cpu":
+      return byNumber((l) => l.cpu ?? l.container?.cpu, true);
+    case "memory":
+      return byNumber((l) => l.memory ?? (l.container ? containerMemory(l.container) : undefined), true);
+    case "uptime":
+      return byNumber((l) => l.startedMs, false);
+    case "recent":
+      return byNumber((l) => l.startedMs, true);
+    case "name":
+      return (a, b) =>
+        (a.displayName || a.cmd).localeCompare(b.displayName || b.cmd, undefined, { sensitivity: "base" });
+    default:
+      return byPort;
+  }
+}
+
+/** A sorted copy; ties keep port order. */
+export function sortListeners(listeners: Listener[], mode: SortMode): Listener[] {
+  const compare = listenerCompare(mode);
+  return [...listeners].sort((a, b) => compare(a, b) || byPort(a, b));
+}
+
+const lowestPort = (c: DockerContainer) =>
+  c.ports.reduce<number | undefined>(
+    (min, p) => (p.hostPort && (!min || p.hostPort < min) ? p.hostPort : min),
+    undefined
+  );
+
+function containerCompare(mode: SortMode): (a: DockerContainer, b: DockerContainer) => number {
+  switch (mode) {
+    case "cpu":
+      return byNumber((c) => c.cpu, true);
+    case "memory":
+      return byNumber(containerMemory, true);
+    // Containers have no process start time; creation time is the closest equivalent
+    case "uptime":
+      return byNumber((c) => c.createdMs, false);
+    case "recent":
+      return byNumber((c) => c.createdMs, true);
+    case "name":
+      return () => 0;
+    default:
+      return byNumber(lowestPort, false);
+  }
+}
+
+/** A sorted copy; ties are ordered by name. */
+export function sortContainers(containers: DockerContainer[], mode: SortMode): DockerContainer[] {
+  const compare = containerCompare(mode);
+  return [...containers].sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+}
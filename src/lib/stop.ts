@@ -0,0 +1,169 @@
+import { platform, SignalError, type Signal } from "../platform";
+
+// =====================
+// Stop and verify
+// =====================
+// A signal is only a request: dev servers may ignore SIGTERM, take a while to shut down, or leave a child
+// holding the socket. These helpers wait for the real outcome instead of reporting "sent".
+
+const POLL_MS = 250;
+// After SIGKILL only the kernel is left to tear the process and its sockets down
+const KILL_WAIT_MS = 2000;
+
+export type PortRef = { port: number; proto: "tcp" | "udp" };
+
+export type StopReport = {
+  pids: number[]; // the PIDs that were asked to stop
+  exited: number[]; // gone after the first signal (or already gone)
+  killed: number[]; // ended by SIGKILL
+  escalated: boolean; // SIGTERM was ignored for the whole grace period
+  denied: number[]; // EPERM: owned by another user
+  survivors: number[]; // still running at the end
+  failed: string[]; // error messages
+  portHolders: number[]; // PIDs still listening on the port at the end, including new ones
+  port?: PortRef;
+};
+
+export type StopOptions = {
+  signal?: Signal; // "TERM" (default) escalates to KILL after graceMs; "KILL" only waits for the exit
+  graceMs: number;
+  port?: PortRef; // also wait for the port to stop listening
+  onProgress?: (status: string) => void;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Signal 0 checks for existence; EPERM means it exists but belongs to someone else
+function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: unknown) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function portHolders(port: PortRef | undefined, likely: number[]): Promise<number[]> {
+  if (!port) return [];
+  try {
+    return await platform.findPidsByPort(port.port, port.proto, likely);
+  } catch {
+    return [];
+  }
+}
+
+/** Sends `sig` to each PID; returns the ones it reached and records permission and other failures. */
+async function signalAll(pids: number[], sig: Signal, report: StopReport): Promise<number[]> {
+  const reached: number[] = [];
+  for (const pid of pids) {
+    try {
+      await platform.kill(pid, sig);
+      reached.push(pid);
+    } catch (err: unknown) {
+      if (err instanceof SignalError && err.code === "ESRCH") {
+        if (!report.exited.includes(pid)) report.exited.push(pid);
+        continue;
+      }
+      if (err instanceof SignalError && err.code === "EPERM") report.denied.push(pid);
+      else report.failed.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  return reached;
+}
+
+/** Polls until every PID has exited and nothing listens on the port, or the deadline passes. */
+async function waitForExit(pids: number[], port: PortRef | undefined, deadline: number) {
+  for (;;) {
+    const alive = pids.filter(isRunning);
+    const holders = await portHolders(port, pids);
+    if ((!alive.length && !holders.length) || Date.now() >= deadline) return { alive, holders };
+    await sleep(POLL_MS);
+  }
+}
+
+/**
+ * Stops the PIDs and verifies the result: SIGTERM, wait up to `graceMs` for them to exit (and the port to be
+ * released), then SIGKILL whatever is left.
+ */
+export async function stopProcesses(pids: number[], options: StopOptions): Promise<StopReport> {
+  const { signal = "TERM", graceMs, port, onProgress } = options;
+  const report: StopReport = {
+    pids,
+    exited: [],
+    killed: [],
+    escalated: false,
+    denied: [],
+    survivors: [],
+    failed: [],
+    portHolders: [],
+    port,
+  };
+
+  const reached = await signalAll(pids, signal, report);
+  onProgress?.(signal === "TERM" ? "Waiting for exit…" : "Waiting for the kernel to clean up…");
+  let { alive, holders } = await waitForExit(reached, port, Date.now() + (signal === "TERM" ? graceMs : KILL_WAIT_MS));
+
+  if (signal === "TERM" && alive.length) {
+    onProgress?.(`Still running after ${Math.round(graceMs / 1000)}s, sending SIGKILL…`);
+    report.escalated = true;
+    const killed = await signalAll(alive, "KILL", report);
+    ({ alive, holders } = await waitForExit(killed, port, Date.now() + KILL_WAIT_MS));
+    report.killed = killed.filter((pid) => !alive.includes(pid));
+  } else if (signal === "KILL") {
+    report.killed = reached.filter((pid) => !alive.includes(pid));
+  }
+
+  report.exited.push(
+    ...reached.filter((pid) => !report.killed.includes(pid) && !alive.includes(pid) && !report.exited.includes(pid))
+  );
+  report.survivors = alive;
+  report.portHolders = holders;
+  return report;
+}
+
+/** Finds whoever listens on the port and stops them with the same verification as `stopProcesses`. */
+export async function killOwnersByPort(port: number, proto: "tcp" | "udp", options: StopOptions): Promise<StopReport> {
+  const pids = await platform.findPidsByPort(port, proto);
+  return stopProcesses(pids, { ...options, port: { port, proto } });
+}
+
+const pidList = (pids: number[]) => pids.map((p) => `PID ${p}`).join(", ");
+
+/** Toast-ready summary of a stop: `ok` only when everything exited and the port (if any) is free. */
+export function summarizeStop(report: StopReport, what: string): { ok: boolean; title: string; message?: string } {
+  const portName = report.port ? `:${report.port.port}` : undefined;
+  if (!report.pids.length) {
+    return { ok: true, title: portName ? `Nothing is listening on ${portName}` : `${what} is not running` };
+  }
+  if (report.denied.length) {
+    return {
+      ok: false,
+      title: `Not permitted to stop ${what}`,
+      message: `${pidList(report.denied)} ${report.denied.length === 1 ? "belongs" : "belong"} to another user. Stop ${
+        report.denied.length === 1 ? "it" : "them"
+      } from a terminal with sudo kill.`,
+    };
+  }
+  if (report.failed.length) {
+    return { ok: false, title: `Failed to stop ${what}`, message: report.failed.join("; ") };
+  }
+  if (report.survivors.length) {
+    return { ok: false, title: `${what} is still running`, message: `${pidList(report.survivors)} survived SIGKILL` };
+  }
+  if (report.portHolders.length) {
+    // Typically a file watcher or supervisor that respawned the server
+    return {
+      ok: false,
+      title: `${portName} is still in use`,
+      message: `Now held by ${pidList(report.portHolders)}`,
+    };
+  }
+  const freed = portName ? `, ${portName} is free` : "";
+  if (report.escalated) {
+    return { ok: true, title: `Force-stopped ${what}`, message: `Ignored SIGTERM; stopped by SIGKILL${freed}` };
+  }
+  if (report.killed.length) {
+    return { ok: true, title: `Force-stopped ${what}`, message: portName ? `${portName} is free` : undefined };
+  }
+  return { ok: true, title: `Stopped ${what}`, message: freed ? `Exited cleanly${freed}` : "Exited cleanly" };
+}
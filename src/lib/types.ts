@@ -0,0 +1,121 @@
+// =====================
+// Shared types
+// =====================
+export type Listener = {
+  pid: number;
+  cmd: string;
+  user?: string;
+  uid?: number;
+  address: string; // e.g., 127.0.0.1 or *
+  port: number;
+  protocol: "tcp" | "udp";
+  execPath?: string;
+  cwd?: string;
+  cmdline?: string; // the arguments, without the executable
+  argv?: string[]; // the whole command line, executable first
+  cpu?: number; // %
+  memory?: number; // bytes
+  startedAt?: string; // as ps prints it, e.g. "Mon Oct 13 09:12:44 2026"
+  startedMs?: number; // the same moment as a timestamp
+  ppid?: number; // parent PID, from pidusage
+  // Derived, for nicer display
+  displayName?: string;
+  http?: HttpProbe; // filled in by the background probe, TCP only
+  project?: ProjectInfo; // detected from cwd
+  container?: DockerContainer; // set when Docker's port proxy listens on behalf of this container
+};
+
+/** One row of the system process table, used to build process trees. */
+export type ProcessEntry = {
+  pid: number;
+  ppid: number;
+  pgid: number; // process group
+  command: string; // full command line
+};
+
+/** A TCP connection to a listening port, seen from the server's end. */
+export type Connection = {
+  localAddress: string; // the server's address and port
+  localPort: number;
+  remoteAddress: string; // the client's
+  remotePort: number;
+  state: string; // e.g. "ESTABLISHED", "TIME_WAIT"
+  serverPid?: number;
+  clientPid?: number; // set when the client runs on this machine and is visible to us
+  clientCmd?: string;
+};
+
+export type ProjectInfo = {
+  root: string;
+  name: string;
+  framework?: string; // e.g. "Next.js", "Rails"
+  branch?: string; // git branch, or short SHA when detached
+};
+
+export type HttpProbe = {
+  isHttp: boolean;
+  tls: boolean;
+  status?: number;
+  title?: string;
+  server?: string; // Server response header
+};
+
+export type DockerPort = {
+  hostIp?: string; // 0.0.0.0, 127.0.0.1, ::, etc.
+  hostPort?: number; // host port if published
+  containerPort: number;
+  protocol: string; // tcp/udp
+};
+
+export type DockerContainer = {
+  id: string;
+  name: string;
+  image: string;
+  status: string; // e.g., "Up 2 minutes"
+  state?: string; // running, exited, created, paused, restarting, dead
+  createdMs?: number;
+  exitCode?: number; // for exited containers
+  health?: "healthy" | "unhealthy" | "starting"; // only for containers with a HEALTHCHECK
+  ports: DockerPort[];
+  cpu?: number; // percent
+  mem?: string; // raw string from docker stats (e.g., "123MiB / 2GiB")
+  compose?: ComposeInfo; // from com.docker.compose.* labels
+  runtime?: RuntimeId; // which CLI listed the container; actions go through the same one
+};
+
+export type RuntimeId = "docker" | "podman" | "nerdctl";
+
+export type ComposeInfo = {
+  project: string;
+  service: string;
+  workingDir?: string;
+  configFiles: string[]; // absolute paths, as recorded by docker compose
+};
+
+export type LogLine = {
+  time?: string; // RFC 3339 timestamp as printed by docker
+  ms?: number; // time as epoch milliseconds, for ordering
+  text: string; // ANSI codes stripped
+  stream: "stdout" | "stderr";
+};
+
+// Subset of `docker inspect` shown in the inspect view
+export type ContainerInspect = {
+  id: string;
+  name: string;
+  image: string;
+  created?: string;
+  status: string;
+  health?: {
+    status: string;
+    failingStreak: number;
+    log: { start?: string; exitCode: number; output: string }[];
+  };
+  networks: { name: string; ip?: string; ipv6?: string; gateway?: string }[];
+  mounts: { type: string; name?: string; source: string; destination: string; readOnly: boolean }[];
+  env: { key: string; value: string }[];
+  restartPolicy?: string; // e.g. "unless-stopped", "on-failure:3"
+  entrypoint: string[];
+  cmd: string[];
+  labels: Record<string, string>;
+};
@@ -0,0 +1,49 @@
+// =====================
+// Error helper
+// =====================
+export function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === "object" && err !== null && "stderr" in err) return String((err as { stderr: unknown }).stderr);
+  return String(err);
+}
+
+// =====================
+// Formatting helpers
+// =====================
+export function formatMem(bytes?: number): string {
+  if (!bytes || bytes <= 0) return "-";
+  const mb = bytes / (1024 * 1024);
+  if (mb < 1024) return `${mb.toFixed(1)} MB`;
+  const gb = mb / 1024;
+  return `${gb.toFixed(2)} GB`;
+}
+
+/** "2h 14m", "3d 4h", "45s": the two largest units of a duration. */
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const parts: [number, string][] = [
+    [Math.floor(s / 86400), "d"],
+    [Math.floor(s / 3600) % 24, "h"],
+    [Math.floor(s / 60) % 60, "m"],
+    [s % 60, "s"],
+  ];
+  const first = parts.findIndex(([n]) => n > 0);
+  if (first < 0) return "0s";
+  return parts
+    .slice(first, first + 2)
+    .filter(([n]) => n > 0)
+    .map(([n, unit]) => `${n}${unit}`)
+    .join(" ");
+}
+
+export function basename(p?: string) {
+  if (!p) return undefined;
+  const parts = p.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+}
+
+export function friendlyAddress(address: string) {
+  if (address === "127.0.0.1" || address === "::1") return "localhost";
+  if (address === "*" || address === "0.0.0.0" || address === "::") return "all network interfaces";
+  return address;
+}
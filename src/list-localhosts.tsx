@@ -1,316 +1,152 @@
-import { Action, ActionPanel, Icon, List, showToast, Toast, Detail, getPreferenceValues } from "@raycast/api";
-import { execa } from "execa";
-import pidusage from "pidusage";
-import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  Detail,
+  confirmAlert,
+  getPreferenceValues,
+  LocalStorage,
+  environment,
+  open,
+  openExtensionPreferences,
+  showInFinder,
+} from "@raycast/api";
+import { existsSync } from "fs";
+import { writeFile } from "fs/promises";
+import { homedir, hostname, userInfo } from "os";
+import { join } from "path";
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { ContainerInspect } from "./components/container-inspect";
+import { Connections } from "./components/connections";
+import { ContainerLogs } from "./components/container-logs";
+import { ProcessLog } from "./components/process-log";
+import { getGraceMs, getRuntimeConfig, loadServiceCatalog, stopWithToast } from "./components/shared";
+import {
+  findOwningContainer,
+  getDockerContainers,
+  isContainerRunning,
+  pruneStoppedContainers,
+  runComposeCommand,
+  runContainerCommand,
+  type ComposeCommand,
+  type ContainerCommand,
+} from "./lib/docker";
+import { listenerUrl, probeKey, probeListeners } from "./lib/http-probe";
+import {
+  auditExposures,
+  exposureReason,
+  exposureReport,
+  parseAllowlist,
+  SEVERITIES,
+  type Exposure,
+  type Severity,
+} from "./lib/audit";
+import { describePlan, planBulkStop, planSize, runBulkStop, type BulkPlan } from "./lib/bulk";
+import {
+  containerHistoryKey,
+  historyKey,
+  isMemoryGrowing,
+  recordSamples,
+  seriesOf,
+  seriesStats,
+  sparkline,
+  type MetricsHistory,
+  type Sample,
+} from "./lib/history";
+import { groupContainersByCompose, groupListeners, type GroupBy, type ListenerGroup } from "./lib/groups";
+import { collectListeners } from "./lib/listeners";
+import { parseDockerStatus } from "./lib/parsers";
+import {
+  buildProcessTree,
+  describeProcesses,
+  findLaunchRoot,
+  formatTree,
+  getProcessGroup,
+  getSubtree,
+  type ProcessTree,
+} from "./lib/process-tree";
+import { projectLabel } from "./lib/project";
+import { matchContainer, matchListener, parseQuery } from "./lib/query";
+import { launchCommandLine, LISTEN_TIMEOUT_MS, logFileFor, relaunch, type LaunchSpec } from "./lib/relaunch";
+import { mergeSeen, parseSeen, recentlyClosed, seenAsListener, type SeenListener } from "./lib/seen";
+import { detectRuntimes, type ContainerRuntime } from "./lib/runtime";
+import {
+  BUILTIN_SERVICES,
+  identifyContainer,
+  identifyListener,
+  isBrowsablePort,
+  mayServeHttp,
+  type ServiceDef,
+  type ServiceMatch,
+} from "./lib/services";
+import { killOwnersByPort, stopProcesses, summarizeStop } from "./lib/stop";
+import { platform, type Signal } from "./platform";
+import type { DockerContainer, HttpProbe, Listener, ProcessEntry } from "./lib/types";
+import { SORT_MODES, sortContainers, sortListeners, type SortMode } from "./lib/sort";
+import { basename, formatDuration, formatMem, friendlyAddress, getErrorMessage } from "./lib/utils";
 
-// =====================
-// Error helper
-// =====================
-function getErrorMessage(err: unknown): string {
-  if (err instanceof Error) return err.message;
-  if (typeof err === "object" && err !== null && "stderr" in err) return String((err as { stderr: unknown }).stderr);
-  return String(err);
+function getLogDir() {
+  return join(environment.supportPath, "logs");
 }
 
-// =====================
-// System binary paths for macOS
-// =====================
-const LSOF_PATH = "/usr/sbin/lsof";
-const PS_PATH = "/bin/ps";
-const KILL_PATH = "/bin/kill";
-const CURRENT_USER = process.env.USER || "";
-// Docker might be in different locations depending on installation
-const DOCKER_PATHS = ["/usr/local/bin/docker", "/opt/homebrew/bin/docker", "/usr/bin/docker"];
-
-// =====================
-// Types
-// =====================
-export type Listener = {
-  pid: number;
-  cmd: string;
-  user?: string;
-  uid?: number;
-  address: string; // e.g., 127.0.0.1 or *
-  port: number;
-  protocol: "tcp" | "udp";
-  execPath?: string;
-  cwd?: string;
-  cmdline?: string;
-  cpu?: number; // %
-  memory?: number; // bytes
-  startedAt?: string;
-  // Derived, for nicer display
-  displayName?: string;
-};
-
-export type DockerPort = {
-  hostIp?: string; // 0.0.0.0, 127.0.0.1, ::, etc.
-  hostPort?: number; // host port if published
-  containerPort: number;
-  protocol: string; // tcp/udp
-};
-
-export type DockerContainer = {
-  id: string;
-  name: string;
-  image: string;
-  status: string; // e.g., "Up 2 minutes"
-  ports: DockerPort[];
-  cpu?: number; // percent
-  mem?: string; // raw string from docker stats (e.g., "123MiB / 2GiB")
-};
-
-type LsofRecord = {
-  pid?: number;
-  cmd?: string;
-  uid?: number;
-  user?: string;
-  names: string[]; // each 'n' line (address:port and state)
-  proto: "tcp" | "udp";
-};
-
-// =====================
-// Host listeners (lsof)
-// =====================
-async function getListeningByProto(proto: "tcp" | "udp"): Promise<LsofRecord[]> {
-  const args = proto === "tcp" ? ["-nP", "-iTCP", "-sTCP:LISTEN", "-FpcPnTuL"] : ["-nP", "-iUDP", "-FpcPnTuL"];
-  const { stdout } = await execa(LSOF_PATH, args, { timeout: 4000 });
-  const lines = stdout.split("\n");
-  const records: LsofRecord[] = [];
-  let current: LsofRecord | null = null;
-
-  for (const line of lines) {
-    if (!line) continue;
-    const tag = line[0];
-    const val = line.slice(1);
-    if (tag === "p") {
-      if (current && (current.pid || current.cmd)) records.push(current);
-      current = { names: [], proto } as LsofRecord;
-      const pid = Number(val);
-      if (!Number.isNaN(pid)) current.pid = pid;
-    } else if (!current) {
-      continue;
-    } else {
-      switch (tag) {
-        case "c":
-          current.cmd = val;
-          break;
-        case "u": {
-          const uid = Number(val);
-          if (!Number.isNaN(uid)) current.uid = uid;
-          break;
-        }
-        case "L":
-          current.user = val;
-          break;
-        case "n":
-          current.names.push(val);
-          break;
-      }
-    }
-  }
-  if (current && (current.pid || current.cmd)) records.push(current);
-  return records;
-}
-
-function parseAddressPort(nameLine: string): { address: string; port: number } | null {
-  // name lines may be like "127.0.0.1:3000 (LISTEN)", "*:8080 (LISTEN)", "::1:53", "*:5353"
-  const raw = nameLine.split(" ")[0]; // drop trailing state for TCP
-  const lastColon = raw.lastIndexOf(":");
-  if (lastColon <= 0) return null;
-  const address = raw.slice(0, lastColon);
-  const portStr = raw.slice(lastColon + 1);
-  const port = Number(portStr);
-  if (Number.isNaN(port)) return null;
-  return { address, port };
-}
-
-async function getCwd(pid: number): Promise<string | undefined> {
-  try {
-    const { stdout } = await execa(LSOF_PATH, ["-a", "-p", String(pid), "-d", "cwd", "-Fn"], { timeout: 2500 });
-    const nLine = stdout.split("\n").find((l) => l.startsWith("n"));
-    return nLine ? nLine.slice(1) : undefined;
-  } catch {
-    return undefined;
-  }
-}
-
-async function getPsInfo(
-  pid: number
-): Promise<{ execPath?: string; cmdline?: string; startedAt?: string; fullCommand?: string }> {
+/**
+ * Stops `pids` (when given) with the verified stop, then starts the same command again in its working folder
+ * and waits for the port. The toast offers the log of the new process.
+ */
+async function relaunchWithToast(spec: LaunchSpec, what: string, pids: number[] = []) {
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: `${pids.length ? "Restarting" : "Relaunching"} ${what}…`,
+  });
   try {
-    const { stdout } = await execa(PS_PATH, ["-o", "command=,lstart=", "-p", String(pid)], { timeout: 2500 });
-    const line = stdout.trim();
-    if (!line) return {};
-
-    // Try to extract lstart from the end of the line
-    const match = line.match(/(.*?\S)\s{2,}([A-Z][a-z]{2}\s[A-Z][a-z]{2}\s+\d+\s+\d{2}:\d{2}:\d{2}\s+\d{4})$/);
-    let execPlusArgs = line;
-    let lstart = undefined as string | undefined;
-    if (match) {
-      execPlusArgs = match[1];
-      lstart = match[2];
-    }
-
-    // Split the full command to get executable path and arguments
-    const parts = execPlusArgs.split(/\s+/);
-    const execPath = parts[0];
-    const cmdline = parts.slice(1).join(" ");
-
-    // Get the full command name from the executable path
-    const fullCommand = basename(execPath) || execPath;
-
-    return { execPath, cmdline, startedAt: lstart, fullCommand };
-  } catch {
-    return {};
-  }
-}
-
-async function enrichWithStats(pids: number[]): Promise<Record<number, { cpu?: number; memory?: number }>> {
-  const out: Record<number, { cpu?: number; memory?: number }> = {};
-  for (const pid of pids) {
-    try {
-      const s = await pidusage(pid);
-      out[pid] = { cpu: s.cpu, memory: s.memory };
-    } catch {
-      out[pid] = {};
+    if (pids.length) {
+      const port = { port: spec.port, proto: spec.protocol };
+      const report = await stopProcesses(pids, {
+        graceMs: getGraceMs(),
+        port,
+        onProgress: (status) => (toast.message = status),
+      });
+      const summary = summarizeStop(report, what);
+      if (!summary.ok) {
+        toast.style = Toast.Style.Failure;
+        toast.title = summary.title;
+        toast.message = summary.message;
+        return false;
+      }
     }
-  }
-  return out;
-}
-
-function formatMem(bytes?: number): string {
-  if (!bytes || bytes <= 0) return "-";
-  const mb = bytes / (1024 * 1024);
-  if (mb < 1024) return `${mb.toFixed(1)} MB`;
-  const gb = mb / 1024;
-  return `${gb.toFixed(2)} GB`;
-}
-
-function basename(p?: string) {
-  if (!p) return undefined;
-  const parts = p.split("/").filter(Boolean);
-  return parts[parts.length - 1];
-}
-
-function friendlyAddress(address: string) {
-  if (address === "127.0.0.1" || address === "::1") return "localhost";
-  if (address === "*" || address === "0.0.0.0" || address === "::") return "all network interfaces";
-  return address;
-}
-
-// Kill owners by port (supports tcp/udp)
-async function killOwnersByPort(port: number, proto: "tcp" | "udp", sig: "TERM" | "KILL") {
-  const selector = proto === "tcp" ? `-tiTCP:${port}` : `-tiUDP:${port}`;
-  const args = [selector];
-  if (proto === "tcp") args.push("-sTCP:LISTEN");
-  const { stdout } = await execa(LSOF_PATH, args, { timeout: 2000 });
-  const pids = stdout
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean)
-    .map((l) => Number(l))
-    .filter((n) => !Number.isNaN(n));
-  for (const pid of pids) {
-    await execa(KILL_PATH, ["-" + sig, String(pid)]);
-  }
-  return pids.length;
-}
-
-// =====================
-// Docker helpers (docker ps / stats)
-// =====================
-async function findDockerPath(): Promise<string | null> {
-  for (const path of DOCKER_PATHS) {
-    try {
-      await execa(path, ["version", "--format", "{{.Server.Version}}"], { timeout: 1000 });
-      return path;
-    } catch {
-      // Continue to next path
+    toast.message = "Starting…";
+    const result = await relaunch(spec, getLogDir(), LISTEN_TIMEOUT_MS, (status) => (toast.message = status));
+    toast.primaryAction = { title: "Open Log", onAction: () => open(result.logFile) };
+    if (result.exited) {
+      toast.style = Toast.Style.Failure;
+      toast.title = `${what} exited right away`;
+      toast.message = "Open the log to see why";
+      return false;
     }
+    toast.style = Toast.Style.Success;
+    toast.title = `${pids.length ? "Restarted" : "Relaunched"} ${what}`;
+    toast.message = result.listening
+      ? `PID ${result.pid} is listening on :${spec.port}`
+      : `PID ${result.pid} is running but not listening on :${spec.port} yet`;
+    return true;
+  } catch (err: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = `Failed to relaunch ${what}`;
+    toast.message = getErrorMessage(err);
+    return false;
   }
-  return null;
 }
 
-async function hasDocker(): Promise<boolean> {
-  const dockerPath = await findDockerPath();
-  return dockerPath !== null;
-}
+const SEEN_KEY = "seen-listeners";
+const SORT_KEY = "sort-mode";
 
-function parseDockerPorts(portsField: string): DockerPort[] {
-  if (!portsField) return [];
-  return portsField
-    .split(",")
-    .map((p) => p.trim())
-    .filter(Boolean)
-    .map((entry) => {
-      if (entry.includes("->")) {
-        const [host, cont] = entry.split("->");
-        let hostIp: string | undefined;
-        let hostPort: number | undefined;
-        const lastColon = host.lastIndexOf(":");
-        if (lastColon !== -1) {
-          hostIp = host.slice(0, lastColon).replace(/^\*$/, "0.0.0.0");
-          const hp = Number(host.slice(lastColon + 1));
-          if (!Number.isNaN(hp)) hostPort = hp;
-        }
-        const [cpStr, proto = "tcp"] = cont.split("/");
-        const containerPort = Number(cpStr);
-        return { hostIp, hostPort, containerPort, protocol: proto.toLowerCase() } as DockerPort;
-      }
-      const [cpStr, proto = "tcp"] = entry.split("/");
-      const containerPort = Number(cpStr);
-      return { containerPort, protocol: proto.toLowerCase() } as DockerPort;
-    })
-    .filter((p) => !Number.isNaN(p.containerPort));
-}
-
-async function getDockerContainers(): Promise<DockerContainer[]> {
-  const dockerPath = await findDockerPath();
-  if (!dockerPath) return [];
-
-  const { stdout } = await execa(
-    dockerPath,
-    ["ps", "--no-trunc", "--format", "{{.ID}}\t{{.Image}}\t{{.Names}}\t{{.Ports}}\t{{.Status}}"],
-    { timeout: 3000 }
-  );
-  const lines = stdout
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
-  return lines.map((line) => {
-    const [id, image, name, portsField, status] = line.split("\t");
-    return {
-      id,
-      image,
-      name,
-      status,
-      ports: parseDockerPorts(portsField || ""),
-    } as DockerContainer;
-  });
-}
-
-async function getDockerStatsByName(): Promise<Record<string, { cpu?: number; mem?: string }>> {
-  const stats: Record<string, { cpu?: number; mem?: string }> = {};
-  const dockerPath = await findDockerPath();
-  if (!dockerPath) return stats;
-
-  try {
-    const { stdout } = await execa(
-      dockerPath,
-      ["stats", "--no-stream", "--format", "{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}"],
-      { timeout: 3500 }
-    );
-    for (const line of stdout.split("\n")) {
-      if (!line.trim()) continue;
-      const [name, cpuPerc, memUsage] = line.split("\t");
-      const cpu = cpuPerc?.endsWith("%") ? Number(cpuPerc.replace("%", "")) : undefined;
-      stats[name] = { cpu, mem: memUsage };
-    }
-  } catch {
-    // docker stats may fail if Docker is starting; ignore
-  }
-  return stats;
+async function loadSeen() {
+  return parseSeen(await LocalStorage.getItem<string>(SEEN_KEY));
 }
 
 // =====================
@@ -319,104 +155,59 @@ async function getDockerStatsByName(): Promise<Record<string, { cpu?: number; me
 export default function Command() {
   const preferences = getPreferenceValues<Preferences.ListLocalhosts>();
   const [listeners, setListeners] = useState<Listener[]>([]);
-  const [dockerAvailable, setDockerAvailable] = useState<boolean | null>(null);
+  const [runtimes, setRuntimes] = useState<ContainerRuntime[] | null>(null);
   const [containers, setContainers] = useState<DockerContainer[]>([]);
+  const [probes, setProbes] = useState<Record<string, HttpProbe>>({});
+  const [processTree, setProcessTree] = useState<ProcessTree>();
+  const [history, setHistory] = useState<MetricsHistory>(new Map());
+  const [seen, setSeen] = useState<SeenListener[]>([]);
+  const [catalog, setCatalog] = useState<ServiceDef[]>(BUILTIN_SERVICES);
   const [isLoading, setIsLoading] = useState(true);
+  const [showStopped, setShowStopped] = useState(preferences.showStoppedContainers);
 
   // View
-  const [viewMode, setViewMode] = useState<"simple" | "advanced">(preferences.defaultViewMode || "simple");
+  type ViewMode = "simple" | "advanced" | "groupByProcess" | "groupByProject" | "audit";
+  const [viewMode, setViewMode] = useState<ViewMode>(preferences.defaultViewMode || "simple");
   type OptionsMode = "all" | "hideSystem" | "hideZeroCPU" | "hideBoth";
   const [optionsMode, setOptionsMode] = useState<OptionsMode>("all");
+  const [sortMode, setSortMode] = useState<SortMode>("port");
+  const [searchText, setSearchText] = useState("");
+  const [marked, setMarked] = useState<Set<string>>(new Set());
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const seenRef = useRef<SeenListener[] | null>(null);
+  const catalogRef = useRef<ServiceDef[]>(BUILTIN_SERVICES);
 
   const refresh = useCallback(async () => {
     try {
       // Host listeners (TCP + UDP)
-      const [tcp, udp] = await Promise.all([getListeningByProto("tcp"), getListeningByProto("udp")]);
-      const records = [...tcp, ...udp];
-
-      const base: Listener[] = [];
-      for (const r of records) {
-        for (const n of r.names) {
-          // Ignore connected UDP entries like "127.0.0.1:12345->8.8.8.8:53"
-          if (n.includes("->")) continue;
-          const ap = parseAddressPort(n);
-          if (!ap || !r.pid || !r.cmd) continue;
-          base.push({
-            pid: r.pid,
-            cmd: r.cmd,
-            user: r.user,
-            uid: r.uid,
-            address: ap.address,
-            port: ap.port,
-            protocol: r.proto,
-            displayName: basename(r.cmd) || r.cmd,
-          });
-        }
-      }
+      const list = await collectListeners();
+      setListeners(list);
+      // Probe in the background so a slow port never delays the list
+      probeListeners(list, catalogRef.current)
+        .then(setProbes)
+        .catch(() => undefined);
+      platform
+        .getProcessTable()
+        .then((table) => setProcessTree(buildProcessTree(table)))
+        .catch(() => undefined);
 
-      const pids = [...new Set(base.map((b) => b.pid))];
-      const [statsByPid, extraInfoList] = await Promise.all([
-        enrichWithStats(pids),
-        Promise.all(
-          pids.map(async (pid) => {
-            const [cwd, psinfo] = await Promise.all([getCwd(pid), getPsInfo(pid)]);
-            return { pid, cwd, ...psinfo };
-          })
-        ),
-      ]);
-      const extraInfoByPid = Object.fromEntries(extraInfoList.map((e) => [e.pid, e]));
-
-      const merged = base.map((b) => {
-        const s = statsByPid[b.pid] || {};
-        const e = extraInfoByPid[b.pid] || {};
-        // Use the full command name from ps, fallback to lsof's abbreviated name
-        let displayName = e.fullCommand || basename(e.execPath) || b.cmd;
-
-        // If we still have a short abbreviated name, try to make it more readable
-        if (displayName && displayName.length <= 15 && !displayName.includes("/")) {
-          // Common macOS process name mappings
-          const nameMap: Record<string, string> = {
-            Spotify: "Spotify",
-            Sp: "Spotify",
-            Co: "Code",
-            Vi: "Visual Studio Code",
-            Go: "Google Chrome",
-            Ra: "Raycast",
-            On: "OneDrive",
-            sha: "sharingd",
-            Mi: "Microsoft Teams",
-            Library: "Library Agent",
-          };
-          displayName = nameMap[displayName] || displayName;
-        }
-
-        return {
-          ...b,
-          cpu: s.cpu,
-          memory: s.memory,
-          execPath: e.execPath,
-          cmdline: e.cmdline,
-          cwd: e.cwd,
-          startedAt: e.startedAt,
-          displayName,
-        };
-      });
+      // Containers section (detection is cached, so this does not re-probe every runtime each refresh)
+      const config = getRuntimeConfig();
+      const found = await detectRuntimes(config);
+      setRuntimes(found);
+      const ctrs = found.length ? await getDockerContainers(config, showStopped) : [];
+      setContainers(ctrs);
+      setHistory((prev) => recordSamples(prev, list, ctrs));
 
-      merged.sort((a, b) => a.port - b.port);
-      setListeners(merged);
-
-      // Docker section
-      const has = await hasDocker();
-      setDockerAvailable(has);
-      if (has) {
-        const [list, statMap] = await Promise.all([getDockerContainers(), getDockerStatsByName()]);
-        const withStats = list.map((c) => ({ ...c, cpu: statMap[c.name]?.cpu, mem: statMap[c.name]?.mem }));
-        setContainers(withStats);
-      } else {
-        setContainers([]);
-      }
+      // Remember host listeners (not Docker's proxy) so they can still be looked up after they close
+      const nextSeen = mergeSeen(
+        seenRef.current ?? (await loadSeen()),
+        list.filter((l) => !findOwningContainer(l, ctrs))
+      );
+      seenRef.current = nextSeen;
+      setSeen(nextSeen);
+      await LocalStorage.setItem(SEEN_KEY, JSON.stringify(nextSeen));
     } catch (err: unknown) {
       await showToast({
         style: Toast.Style.Failure,
@@ -426,6 +217,20 @@ export default function Command() {
     } finally {
       setIsLoading(false);
     }
+  }, [showStopped]);
+
+  useEffect(() => {
+    LocalStorage.getItem<string>(SORT_KEY).then((stored) => {
+      const mode = SORT_MODES.find((m) => m.value === stored)?.value;
+      if (mode) setSortMode(mode);
+    });
+  }, []);
+
+  useEffect(() => {
+    loadServiceCatalog().then((loaded) => {
+      catalogRef.current = loaded;
+      setCatalog(loaded);
+    });
   }, []);
 
   useEffect(() => {
@@ -439,34 +244,91 @@ export default function Command() {
   const hostItems = useMemo(() => {
     // De-duplicate PID+address+port+protocol
     const map = new Map<string, Listener>();
-    function isSystem(l: Listener) {
-      if (l.uid !== undefined && l.uid < 500) return true; // system UIDs
-      if (l.user && CURRENT_USER && l.user !== CURRENT_USER) return true; // other users
-      const p = l.execPath || l.cmd;
-      return (
-        p.startsWith("/System/") ||
-        p.startsWith("/usr/sbin/") ||
-        p.startsWith("/usr/libexec/") ||
-        p.startsWith("/Library/CoreServices/")
-      );
-    }
     const hideSystem = optionsMode === "hideSystem" || optionsMode === "hideBoth";
     for (const l of listeners) {
-      if (hideSystem && isSystem(l)) continue;
-      map.set(`${l.pid}-${l.address}-${l.port}-${l.protocol}`, l);
+      if (hideSystem && platform.isSystem(l)) continue;
+      map.set(`${l.pid}-${l.address}-${l.port}-${l.protocol}`, {
+        ...l,
+        http: l.protocol === "tcp" ? probes[probeKey(l)] : undefined,
+        container: findOwningContainer(l, containers),
+      });
     }
     return [...map.values()];
-  }, [listeners, optionsMode]);
+  }, [listeners, optionsMode, probes, containers]);
+
+  // Filtering is done here rather than by Raycast so bulk actions know exactly which rows are visible
+  const query = useMemo(
+    () => parseQuery(searchText, { currentUser: userInfo().username, home: homedir() }),
+    [searchText]
+  );
+  const visibleHosts = useMemo(
+    () =>
+      sortListeners(
+        hostItems.filter((l) => matchListener(query, l)),
+        sortMode
+      ),
+    [hostItems, query, sortMode]
+  );
+  const visibleContainers = useMemo(
+    () =>
+      sortContainers(
+        containers.filter((c) => matchContainer(query, c)),
+        sortMode
+      ),
+    [containers, query, sortMode]
+  );
+
+  const closedWindowMs = (Number(preferences.recentlyClosedHours) || 0) * 3600 * 1000;
+  const visibleClosed = useMemo(() => {
+    if (!closedWindowMs) return [];
+    const hideSystem = optionsMode === "hideSystem" || optionsMode === "hideBoth";
+    return recentlyClosed(seen, listeners, closedWindowMs).filter((r) => {
+      const l = seenAsListener(r);
+      return !(hideSystem && platform.isSystem(l)) && matchListener(query, l);
+    });
+  }, [seen, listeners, closedWindowMs, optionsMode, query]);
+
+  const updateSeen = useCallback(async (next: SeenListener[]) => {
+    seenRef.current = next;
+    setSeen(next);
+    if (next.length) await LocalStorage.setItem(SEEN_KEY, JSON.stringify(next));
+    else await LocalStorage.removeItem(SEEN_KEY);
+  }, []);
+
+  // Marks survive refreshes; rows that disappeared simply stop matching
+  const bulk: Bulk = {
+    all: { listeners: hostItems, containers },
+    visible: { listeners: visibleHosts, containers: visibleContainers },
+    marked: {
+      listeners: hostItems.filter((l) => marked.has(hostKey(l))),
+      containers: containers.filter((c) => marked.has(c.id)),
+    },
+    isMarked: (key) => marked.has(key),
+    toggleMark: (key) =>
+      setMarked((prev) => {
+        const next = new Set(prev);
+        if (!next.delete(key)) next.add(key);
+        return next;
+      }),
+    clearMarks: () => setMarked(new Set()),
+    onDone: () => {
+      setMarked(new Set());
+      refresh();
+    },
+  };
 
   const ViewModeDropdown = (
     <List.Dropdown
       tooltip="View Mode"
       storeValue={true}
       value={viewMode}
-      onChange={(val) => setViewMode(val as "simple" | "advanced")}
+      onChange={(val) => setViewMode(val as ViewMode)}
     >
       <List.Dropdown.Item title="Simple View" value="simple" />
       <List.Dropdown.Item title="Advanced View" value="advanced" />
+      <List.Dropdown.Item title="Group by Process" value="groupByProcess" />
+      <List.Dropdown.Item title="Group by Project" value="groupByProject" />
+      <List.Dropdown.Item title="Exposure Audit" value="audit" />
     </List.Dropdown>
   );
 
@@ -491,202 +353,1061 @@ export default function Command() {
     </Fragment>
   );
 
+  // The search bar takes only one dropdown, so sorting lives in the action panel
+  const sort: Sort = {
+    mode: sortMode,
+    onChange: (mode) => {
+      setSortMode(mode);
+      LocalStorage.setItem(SORT_KEY, mode);
+    },
+  };
+
   const isAdvanced = viewMode === "advanced";
+  const isAudit = viewMode === "audit";
+  // Audits what the search shows; allowlisted exposures are reported but never flagged
+  const exposures = useMemo(
+    () =>
+      auditExposures(
+        visibleHosts,
+        visibleContainers,
+        parseAllowlist(getPreferenceValues<Preferences>().auditAllowlist)
+      ),
+    [visibleHosts, visibleContainers]
+  );
+  const flagged = exposures.filter((e) => !e.allowlisted);
+  const hostExposure = (l: Listener) =>
+    flagged.find(
+      (e) =>
+        e.port === l.port &&
+        e.protocol === l.protocol &&
+        (l.container ? e.container?.id === l.container.id : e.pid === l.pid)
+    );
+  const containerExposure = (c: DockerContainer) => flagged.find((e) => e.container?.id === c.id);
+  // Admin UIs are only offered while something listens on their port
+  const listeningPorts = useMemo(() => new Set(hostItems.map((l) => l.port)), [hostItems]);
+  const currentUser = useMemo(() => userInfo().username, []);
+  const hostService = (l: Listener) => identifyListener(l, catalog, currentUser, listeningPorts);
+  const containerService = (c: DockerContainer) => identifyContainer(c, catalog);
+  const hideZero = optionsMode === "hideZeroCPU" || optionsMode === "hideBoth";
+  const groupBy: GroupBy | undefined =
+    viewMode === "groupByProcess" ? "process" : viewMode === "groupByProject" ? "project" : undefined;
+  const groups = useMemo(() => (groupBy ? groupListeners(visibleHosts, groupBy) : []), [visibleHosts, groupBy]);
+  const composeGroups = useMemo(() => groupContainersByCompose(visibleContainers), [visibleContainers]);
+  // Runtime labels only matter when containers from more than one runtime are listed together
+  const runtimeLabels = useMemo(
+    () => new Map(runtimes && runtimes.length > 1 ? runtimes.map((r) => [r.id, r.label]) : []),
+    [runtimes]
+  );
+  const runtimeLabel = (c: DockerContainer) => (c.runtime ? runtimeLabels.get(c.runtime) : undefined);
+  const toggleStopped = useCallback(() => setShowStopped((v) => !v), []);
 
   return (
     <List
       isLoading={isLoading}
       isShowingDetail={isAdvanced}
-      searchBarPlaceholder="Filter by port, command, user…"
+      searchBarPlaceholder="Search, or filter with port:3000-3999 cmd:node user:me cpu>5 -proto:udp…"
+      filtering={false}
+      onSearchTextChange={setSearchText}
       searchBarAccessory={searchBarAccessory}
     >
-      <List.Section title="Listening Ports (Host)">
-        {hostItems.map((l) => (
-          <List.Item
-            key={`host-${l.pid}-${l.address}-${l.port}-${l.protocol}`}
-            title={`:${l.port}`}
-            subtitle={isAdvanced ? l.displayName || l.cmd : `${l.protocol.toUpperCase()} • ${l.displayName || l.cmd}`}
-            accessories={(() => {
-              const hideZero = optionsMode === "hideZeroCPU" || optionsMode === "hideBoth";
-              const cpuText =
-                l.cpu !== undefined && (!hideZero || (l.cpu ?? 0) > 0.05) ? `${l.cpu?.toFixed(1)}% CPU` : undefined;
-              // In advanced view, show minimal info since we have the detail panel
-              const base = isAdvanced
-                ? [] // No accessories in advanced view - all info is in the detail panel
-                : [
-                    { text: `PID ${l.pid}`, tooltip: "Process ID" },
-                    l.user ? { text: l.user, tooltip: "User" } : undefined,
-                    cpuText ? { text: cpuText, tooltip: "CPU Usage" } : undefined,
-                  ];
-              return base.filter(Boolean) as { text: string }[];
-            })()}
-            icon={Icon.Terminal}
-            actions={<HostActions listener={l} onRefresh={refresh} />}
-            detail={
-              isAdvanced ? (
-                <List.Item.Detail
-                  markdown={`Port ${l.port} on ${friendlyAddress(l.address)}\n\n${l.displayName || l.cmd}`}
-                  metadata={
-                    <List.Item.Detail.Metadata>
-                      <List.Item.Detail.Metadata.Label title="App / Command" text={l.displayName || l.cmd} />
-                      <List.Item.Detail.Metadata.Label title="Protocol" text={l.protocol.toUpperCase()} />
-                      <List.Item.Detail.Metadata.Label title="PID" text={String(l.pid)} />
-                      {l.user ? <List.Item.Detail.Metadata.Label title="User" text={l.user} /> : null}
-                      {l.uid !== undefined ? (
-                        <List.Item.Detail.Metadata.Label title="UID" text={String(l.uid)} />
-                      ) : null}
-                      {l.execPath ? <List.Item.Detail.Metadata.Label title="Executable" text={l.execPath} /> : null}
-                      {l.cwd ? <List.Item.Detail.Metadata.Label title="Working Dir" text={l.cwd} /> : null}
-                      {l.startedAt ? <List.Item.Detail.Metadata.Label title="Started" text={l.startedAt} /> : null}
-                      {l.cpu !== undefined ? (
-                        <List.Item.Detail.Metadata.Label title="CPU" text={`${l.cpu?.toFixed(1)}%`} />
-                      ) : null}
-                      {l.memory !== undefined ? (
-                        <List.Item.Detail.Metadata.Label title="Memory" text={formatMem(l.memory)} />
-                      ) : null}
-                    </List.Item.Detail.Metadata>
-                  }
+      {query.errors.length ? (
+        <List.Section title="Search" subtitle="These terms are ignored">
+          {query.errors.map((e) => (
+            <List.Item
+              key={e.token}
+              title={e.token}
+              subtitle={e.message}
+              icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+              accessories={[{ tag: { value: "Invalid", color: Color.Red } }]}
+              actions={
+                <ActionPanel>
+                  <Action.Push title="Help & Glossary" icon={Icon.QuestionMark} target={<Help />} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ) : null}
+      {isAudit ? (
+        <AuditSections exposures={exposures} onRefresh={refresh} />
+      ) : (
+        <Fragment>
+          {groupBy ? (
+            groups.map((g) => (
+              <List.Section key={g.key} title={g.title} subtitle={groupSubtitle(g)}>
+                {g.listeners.map((l) => (
+                  <HostItem
+                    key={`host-${l.pid}-${l.address}-${l.port}-${l.protocol}`}
+                    listener={l}
+                    history={history.get(historyKey(l))}
+                    exposure={hostExposure(l)}
+                    service={hostService(l)}
+                    catalog={catalog}
+                    isAdvanced={false}
+                    hideZero={hideZero}
+                    sort={sort}
+                    group={g}
+                    tree={processTree}
+                    bulk={bulk}
+                    onRefresh={refresh}
+                  />
+                ))}
+              </List.Section>
+            ))
+          ) : (
+            <List.Section title="Listening Ports (Host)">
+              {visibleHosts.map((l) => (
+                <HostItem
+                  key={`host-${l.pid}-${l.address}-${l.port}-${l.protocol}`}
+                  listener={l}
+                  history={history.get(historyKey(l))}
+                  exposure={hostExposure(l)}
+                  service={hostService(l)}
+                  catalog={catalog}
+                  isAdvanced={isAdvanced}
+                  hideZero={hideZero}
+                  sort={sort}
+                  tree={processTree}
+                  bulk={bulk}
+                  onRefresh={refresh}
+                />
+              ))}
+            </List.Section>
+          )}
+
+          {composeGroups.projects.map((p) => (
+            <List.Section
+              key={`compose-${p.containers[0]?.runtime ?? ""}-${p.name}`}
+              title={`Compose: ${p.name}`}
+              subtitle={[
+                `${p.containers.length} ${p.containers.length === 1 ? "service" : "services"}`,
+                p.containers[0] && runtimeLabel(p.containers[0]),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            >
+              {p.containers.map((c) => (
+                <ContainerItem
+                  key={`ctr-${c.id}`}
+                  container={c}
+                  history={history.get(containerHistoryKey(c))}
+                  exposure={containerExposure(c)}
+                  service={containerService(c)}
+                  runtimeLabel={runtimeLabel(c)}
+                  isAdvanced={isAdvanced}
+                  showStopped={showStopped}
+                  onToggleStopped={toggleStopped}
+                  sort={sort}
+                  bulk={bulk}
+                  onRefresh={refresh}
                 />
-              ) : undefined
+              ))}
+            </List.Section>
+          ))}
+
+          <List.Section title={runtimes?.length === 1 ? `${runtimes[0].label} Containers` : "Containers"}>
+            {runtimes?.length === 0 && (
+              <List.Item
+                title="No container runtime available"
+                subtitle="Start Docker Desktop, Podman, Colima or Rancher Desktop, or check the runtime preferences"
+                icon={Icon.Warning}
+              />
+            )}
+            {runtimes && runtimes.length > 0 && containers.length === 0 && !searchText && (
+              <List.Item
+                title={showStopped ? "No containers" : "No running containers"}
+                icon={Icon.Info}
+                actions={
+                  <ActionPanel>
+                    <ToggleStoppedAction showStopped={showStopped} onToggle={toggleStopped} />
+                  </ActionPanel>
+                }
+              />
+            )}
+            {composeGroups.standalone.map((c) => (
+              <ContainerItem
+                key={`ctr-${c.id}`}
+                container={c}
+                history={history.get(containerHistoryKey(c))}
+                exposure={containerExposure(c)}
+                service={containerService(c)}
+                runtimeLabel={runtimeLabel(c)}
+                isAdvanced={isAdvanced}
+                showStopped={showStopped}
+                onToggleStopped={toggleStopped}
+                sort={sort}
+                bulk={bulk}
+                onRefresh={refresh}
+              />
+            ))}
+          </List.Section>
+
+          {visibleClosed.length ? (
+            <List.Section
+              title="Recently Closed"
+              subtitle={`Last ${preferences.recentlyClosedHours === "1" ? "hour" : `${preferences.recentlyClosedHours} hours`}`}
+            >
+              {visibleClosed.map((r) => (
+                <ClosedItem
+                  key={`closed-${r.key}`}
+                  record={r}
+                  isAdvanced={isAdvanced}
+                  onForget={() => updateSeen(seen.filter((s) => s.key !== r.key))}
+                  onClear={() => updateSeen([])}
+                  onRefresh={refresh}
+                />
+              ))}
+            </List.Section>
+          ) : null}
+        </Fragment>
+      )}
+    </List>
+  );
+}
+
+// A listener that is gone: what it was, so it can be started again
+function ClosedItem({
+  record: r,
+  isAdvanced,
+  onForget,
+  onClear,
+  onRefresh,
+}: {
+  record: SeenListener;
+  isAdvanced: boolean;
+  onForget: () => Promise<void>;
+  onClear: () => Promise<void>;
+  onRefresh: () => void;
+}) {
+  const l = seenAsListener(r);
+  const logFile = logFileFor(getLogDir(), r);
+  const closedAgo = `closed ${formatDuration(Date.now() - r.lastSeen)} ago`;
+  const ranFor = formatDuration(r.lastSeen - r.firstSeen);
+  const command = launchCommandLine(r);
+
+  async function clear() {
+    if (
+      await confirmAlert({
+        title: "Clear Listener History?",
+        message: "Every remembered port, command and working folder is forgotten.",
+        primaryAction: { title: "Clear History", style: Alert.ActionStyle.Destructive },
+      })
+    ) {
+      await onClear();
+      await showToast({ style: Toast.Style.Success, title: "Cleared listener history" });
+    }
+  }
+
+  return (
+    <List.Item
+      title={hostTitle(l)}
+      subtitle={isAdvanced ? ownerName(l) : `${r.protocol.toUpperCase()} • ${ownerName(l)}`}
+      icon={{ source: Icon.Clock, tintColor: Color.SecondaryText }}
+      accessories={
+        isAdvanced
+          ? []
+          : [
+              { text: `PID ${r.pid}`, tooltip: "Last PID" },
+              { text: closedAgo, tooltip: `Last seen ${new Date(r.lastSeen).toLocaleString()}` },
+            ]
+      }
+      detail={
+        isAdvanced ? (
+          <List.Item.Detail
+            markdown={`Port ${r.port} on ${friendlyAddress(r.address)}, ${closedAgo}\n\n\`\`\`\n${command}\n\`\`\``}
+            metadata={
+              <List.Item.Detail.Metadata>
+                <List.Item.Detail.Metadata.Label title="App / Command" text={r.displayName || r.cmd} />
+                <List.Item.Detail.Metadata.Label title="Protocol" text={r.protocol.toUpperCase()} />
+                <List.Item.Detail.Metadata.Label title="Last PID" text={String(r.pid)} />
+                {r.user ? <List.Item.Detail.Metadata.Label title="User" text={r.user} /> : null}
+                {r.cwd ? <List.Item.Detail.Metadata.Label title="Working Dir" text={r.cwd} /> : null}
+                {r.project ? <List.Item.Detail.Metadata.Label title="Project" text={r.project.name} /> : null}
+                <List.Item.Detail.Metadata.Separator />
+                <List.Item.Detail.Metadata.Label title="First Seen" text={new Date(r.firstSeen).toLocaleString()} />
+                <List.Item.Detail.Metadata.Label title="Last Seen" text={new Date(r.lastSeen).toLocaleString()} />
+                {ranFor !== "0s" ? <List.Item.Detail.Metadata.Label title="Ran For" text={ranFor} /> : null}
+              </List.Item.Detail.Metadata>
             }
           />
-        ))}
-      </List.Section>
-
-      <List.Section title="Docker Containers">
-        {dockerAvailable === false && (
-          <List.Item
-            title="Docker not available"
-            subtitle="Install Docker Desktop and ensure the daemon is running"
-            icon={Icon.Warning}
+        ) : undefined
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            title="Relaunch"
+            icon={Icon.Play}
+            onAction={async () => {
+              await relaunchWithToast(r, r.displayName || r.cmd);
+              onRefresh();
+            }}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
           />
-        )}
-        {dockerAvailable && containers.length === 0 && <List.Item title="No running containers" icon={Icon.Info} />}
-        {containers.map((c) => (
-          <List.Item
-            key={`ctr-${c.id}`}
-            title={c.name}
-            subtitle={isAdvanced ? c.image : c.status}
-            icon={Icon.Box}
-            accessories={
-              (isAdvanced
-                ? [] // No accessories in advanced view - all info is in the detail panel
-                : [
-                    c.ports.length
-                      ? {
-                          text:
-                            c.ports
-                              .map((p) => (p.hostPort ? `${p.hostPort}` : ``))
-                              .filter(Boolean)
-                              .join(", ") || undefined,
-                        }
-                      : undefined,
-                  ]
-              ).filter(Boolean) as { text: string }[]
+          {existsSync(logFile) ? (
+            <Action.Push
+              title="View Output"
+              icon={Icon.Document}
+              target={<ProcessLog logFile={logFile} title={`:${r.port} ${r.displayName || r.cmd}`} />}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+            />
+          ) : null}
+          <Action.CopyToClipboard title="Copy Command" content={command} />
+          {r.cwd ? <Action.CopyToClipboard title="Copy Working Folder" content={r.cwd} /> : null}
+          <Action.CopyToClipboard title="Copy Port" content={String(r.port)} />
+          {r.cwd ? <Action.Open title="Open Working Folder" target={r.cwd} /> : null}
+          <ActionPanel.Section>
+            <Action
+              title="Forget This Listener"
+              icon={Icon.Trash}
+              onAction={onForget}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            />
+            <Action
+              title="Clear Listener History"
+              icon={Icon.XMarkCircle}
+              style={Action.Style.Destructive}
+              onAction={clear}
+              shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+            />
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            <Action.Push title="Help & Glossary" icon={Icon.QuestionMark} target={<Help />} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function HostItem({
+  listener: l,
+  history,
+  exposure,
+  service,
+  catalog,
+  isAdvanced,
+  hideZero,
+  sort,
+  group,
+  tree,
+  bulk,
+  onRefresh,
+}: {
+  listener: Listener;
+  history?: Sample[];
+  exposure?: Exposure;
+  service?: ServiceMatch;
+  catalog: ServiceDef[];
+  isAdvanced: boolean;
+  hideZero: boolean;
+  sort: Sort;
+  group?: ListenerGroup;
+  tree?: ProcessTree;
+  bulk: Bulk;
+  onRefresh: () => void;
+}) {
+  // Container rows belong to Docker's proxy; its process tree is Docker's, not the user's
+  const treeText = tree && !l.container ? formatTree(tree, l.pid, `← :${l.port}`) : "";
+  const growing = history && isMemoryGrowing(history) ? GROWING_ACCESSORY : undefined;
+  return (
+    <List.Item
+      title={hostTitle(l)}
+      subtitle={isAdvanced ? ownerName(l) : `${l.protocol.toUpperCase()} • ${ownerName(l)}`}
+      accessories={(() => {
+        const cpuText =
+          l.cpu !== undefined && (!hideZero || (l.cpu ?? 0) > 0.05) ? `${l.cpu?.toFixed(1)}% CPU` : undefined;
+        // In advanced view, show minimal info since we have the detail panel
+        const mark = bulk.isMarked(hostKey(l)) ? { icon: Icon.CheckCircle, tooltip: "Marked" } : undefined;
+        const base = isAdvanced
+          ? [mark, growing] // No other accessories in advanced view - all info is in the detail panel
+          : [
+              mark,
+              growing,
+              service ? { tag: serviceLabel(service), tooltip: "Service" } : undefined,
+              l.http?.isHttp ? { text: httpLabel(l.http), tooltip: l.http.title || "Web server" } : undefined,
+              { text: `PID ${l.pid}`, tooltip: "Process ID" },
+              l.user ? { text: l.user, tooltip: "User" } : undefined,
+              cpuText ? { text: cpuText, tooltip: "CPU Usage" } : undefined,
+              // Show what the list is sorted by
+              sort.mode === "memory" && l.memory !== undefined
+                ? { text: formatMem(l.memory), tooltip: "Memory" }
+                : undefined,
+              (sort.mode === "uptime" || sort.mode === "recent") && l.startedMs
+                ? { text: `up ${formatDuration(Date.now() - l.startedMs)}`, tooltip: `Started ${l.startedAt ?? ""}` }
+                : undefined,
+            ];
+        return base.filter(Boolean) as List.Item.Accessory[];
+      })()}
+      icon={exposure ? exposureIcon(exposure) : l.container ? Icon.Box : l.http?.isHttp ? Icon.Globe : Icon.Terminal}
+      actions={
+        <HostActions
+          listener={l}
+          service={service}
+          catalog={catalog}
+          group={group}
+          tree={tree}
+          sort={sort}
+          bulk={bulk}
+          onRefresh={onRefresh}
+        />
+      }
+      detail={
+        isAdvanced ? (
+          <List.Item.Detail
+            markdown={`Port ${l.port} on ${friendlyAddress(l.address)}\n\n${l.displayName || l.cmd}${
+              l.http?.title ? `\n\n**${l.http.title}**` : ""
+            }${historyMarkdown(history)}${treeText ? `\n\n**Process Tree**\n\n\`\`\`\n${treeText}\n\`\`\`` : ""}`}
+            metadata={
+              <List.Item.Detail.Metadata>
+                <List.Item.Detail.Metadata.Label title="App / Command" text={l.displayName || l.cmd} />
+                {service ? <List.Item.Detail.Metadata.Label title="Service" text={serviceLabel(service)} /> : null}
+                {l.container ? (
+                  <Fragment>
+                    <List.Item.Detail.Metadata.Label title="Container" text={l.container.name} />
+                    <List.Item.Detail.Metadata.Label title="Image" text={l.container.image} />
+                  </Fragment>
+                ) : null}
+                <List.Item.Detail.Metadata.Label title="Protocol" text={l.protocol.toUpperCase()} />
+                {l.http?.isHttp ? (
+                  <List.Item.Detail.Metadata.Label title="Web Server" text={httpLabel(l.http)} />
+                ) : null}
+                {l.http?.title ? <List.Item.Detail.Metadata.Label title="Page Title" text={l.http.title} /> : null}
+                {l.http?.server ? <List.Item.Detail.Metadata.Label title="Server Header" text={l.http.server} /> : null}
+                <List.Item.Detail.Metadata.Label title="PID" text={String(l.pid)} />
+                {l.ppid ? <List.Item.Detail.Metadata.Label title="Parent PID" text={String(l.ppid)} /> : null}
+                {l.user ? <List.Item.Detail.Metadata.Label title="User" text={l.user} /> : null}
+                {l.uid !== undefined ? <List.Item.Detail.Metadata.Label title="UID" text={String(l.uid)} /> : null}
+                {l.execPath ? <List.Item.Detail.Metadata.Label title="Executable" text={l.execPath} /> : null}
+                {l.cwd ? <List.Item.Detail.Metadata.Label title="Working Dir" text={l.cwd} /> : null}
+                {l.project ? (
+                  <Fragment>
+                    <List.Item.Detail.Metadata.Separator />
+                    <List.Item.Detail.Metadata.Label title="Project" text={l.project.name} />
+                    {l.project.framework ? (
+                      <List.Item.Detail.Metadata.Label title="Framework" text={l.project.framework} />
+                    ) : null}
+                    {l.project.branch ? (
+                      <List.Item.Detail.Metadata.Label title="Git Branch" text={l.project.branch} />
+                    ) : null}
+                    <List.Item.Detail.Metadata.Label title="Project Root" text={l.project.root} />
+                    <List.Item.Detail.Metadata.Separator />
+                  </Fragment>
+                ) : null}
+                {l.startedAt ? <List.Item.Detail.Metadata.Label title="Started" text={l.startedAt} /> : null}
+                {l.startedMs ? (
+                  <List.Item.Detail.Metadata.Label
+                    title="Uptime"
+                    text={`up ${formatDuration(Date.now() - l.startedMs)}`}
+                  />
+                ) : null}
+                {l.cpu !== undefined ? (
+                  <List.Item.Detail.Metadata.Label title="CPU" text={`${l.cpu?.toFixed(1)}%`} />
+                ) : null}
+                {l.memory !== undefined ? (
+                  <List.Item.Detail.Metadata.Label title="Memory" text={formatMem(l.memory)} />
+                ) : null}
+              </List.Item.Detail.Metadata>
             }
-            actions={<DockerActions container={c} onRefresh={refresh} />}
-            detail={
-              isAdvanced ? (
-                <List.Item.Detail
-                  markdown={`Container ${c.name} (${c.image})\n\n${c.status}`}
-                  metadata={
-                    <List.Item.Detail.Metadata>
-                      <List.Item.Detail.Metadata.Label title="Image" text={c.image} />
-                      <List.Item.Detail.Metadata.Label title="Status" text={c.status} />
-                      {c.cpu !== undefined ? (
-                        <List.Item.Detail.Metadata.Label title="CPU" text={`${c.cpu?.toFixed(1)}%`} />
-                      ) : null}
-                      {c.mem ? <List.Item.Detail.Metadata.Label title="Memory" text={c.mem} /> : null}
-                      {c.ports.length ? (
-                        <List.Item.Detail.Metadata.TagList title="Ports">
-                          {c.ports.map((p, idx) => (
-                            <List.Item.Detail.Metadata.TagList.Item
-                              key={idx}
-                              text={
-                                p.hostPort
-                                  ? `${p.hostPort} → ${p.containerPort}/${p.protocol}`
-                                  : `${p.containerPort}/${p.protocol}`
-                              }
-                            />
-                          ))}
-                        </List.Item.Detail.Metadata.TagList>
-                      ) : null}
-                    </List.Item.Detail.Metadata>
+          />
+        ) : undefined
+      }
+    />
+  );
+}
+
+function ContainerItem({
+  container: c,
+  history,
+  exposure,
+  service,
+  runtimeLabel,
+  isAdvanced,
+  showStopped,
+  onToggleStopped,
+  sort,
+  bulk,
+  onRefresh,
+}: {
+  container: DockerContainer;
+  history?: Sample[];
+  exposure?: Exposure;
+  service?: ServiceMatch;
+  runtimeLabel?: string;
+  isAdvanced: boolean;
+  showStopped: boolean;
+  onToggleStopped: () => void;
+  sort: Sort;
+  bulk: Bulk;
+  onRefresh: () => void;
+}) {
+  const running = isContainerRunning(c);
+  const { summary } = parseDockerStatus(c.status);
+  const mark = bulk.isMarked(c.id) ? { icon: Icon.CheckCircle, tooltip: "Marked" } : undefined;
+  const growing = history && isMemoryGrowing(history) ? GROWING_ACCESSORY : undefined;
+  return (
+    <List.Item
+      title={c.compose ? c.compose.service : c.name}
+      keywords={[c.name, c.image]}
+      subtitle={isAdvanced ? c.image : running ? c.status : summary}
+      icon={
+        c.health === "unhealthy"
+          ? { source: Icon.Warning, tintColor: Color.Orange }
+          : exposure
+            ? exposureIcon(exposure)
+            : running
+              ? Icon.Box
+              : { source: Icon.Box, tintColor: Color.SecondaryText }
+      }
+      accessories={
+        (isAdvanced
+          ? [mark, growing] // No other accessories in advanced view - all info is in the detail panel
+          : [
+              mark,
+              growing,
+              service ? { tag: serviceLabel(service), tooltip: "Service" } : undefined,
+              runtimeLabel ? { tag: runtimeLabel, tooltip: "Container Runtime" } : undefined,
+              c.exitCode !== undefined
+                ? {
+                    tag: {
+                      value: `exit ${c.exitCode}`,
+                      color: c.exitCode === 0 ? Color.SecondaryText : Color.Red,
+                    },
+                    tooltip: "Exit Code",
                   }
-                />
-              ) : undefined
+                : undefined,
+              c.ports.length
+                ? {
+                    // IPv4 and IPv6 binds of the same port show once
+                    text:
+                      [...new Set(c.ports.map((p) => (p.hostPort ? `${p.hostPort}` : ``)))]
+                        .filter(Boolean)
+                        .join(", ") || undefined,
+                  }
+                : undefined,
+            ]
+        ).filter(Boolean) as List.Item.Accessory[]
+      }
+      actions={
+        <DockerActions
+          container={c}
+          service={service}
+          showStopped={showStopped}
+          onToggleStopped={onToggleStopped}
+          sort={sort}
+          bulk={bulk}
+          onRefresh={onRefresh}
+        />
+      }
+      detail={
+        isAdvanced ? (
+          <List.Item.Detail
+            markdown={`Container ${c.name} (${c.image})\n\n${c.status}${historyMarkdown(history)}`}
+            metadata={
+              <List.Item.Detail.Metadata>
+                {c.compose ? <List.Item.Detail.Metadata.Label title="Container" text={c.name} /> : null}
+                <List.Item.Detail.Metadata.Label title="Image" text={c.image} />
+                {service ? <List.Item.Detail.Metadata.Label title="Service" text={serviceLabel(service)} /> : null}
+                {runtimeLabel ? <List.Item.Detail.Metadata.Label title="Runtime" text={runtimeLabel} /> : null}
+                <List.Item.Detail.Metadata.Label title="Status" text={c.status} />
+                {c.health ? <List.Item.Detail.Metadata.Label title="Health" text={c.health} /> : null}
+                {c.exitCode !== undefined ? (
+                  <List.Item.Detail.Metadata.Label title="Exit Code" text={String(c.exitCode)} />
+                ) : null}
+                {c.cpu !== undefined ? (
+                  <List.Item.Detail.Metadata.Label title="CPU" text={`${c.cpu?.toFixed(1)}%`} />
+                ) : null}
+                {c.mem ? <List.Item.Detail.Metadata.Label title="Memory" text={c.mem} /> : null}
+                {c.ports.length ? (
+                  <List.Item.Detail.Metadata.TagList title="Ports">
+                    {c.ports.map((p, idx) => (
+                      <List.Item.Detail.Metadata.TagList.Item
+                        key={idx}
+                        text={
+                          p.hostPort
+                            ? `${p.hostPort} → ${p.containerPort}/${p.protocol}`
+                            : `${p.containerPort}/${p.protocol}`
+                        }
+                      />
+                    ))}
+                  </List.Item.Detail.Metadata.TagList>
+                ) : null}
+                {c.compose ? (
+                  <Fragment>
+                    <List.Item.Detail.Metadata.Separator />
+                    <List.Item.Detail.Metadata.Label title="Compose Project" text={c.compose.project} />
+                    <List.Item.Detail.Metadata.Label title="Service" text={c.compose.service} />
+                    {c.compose.workingDir ? (
+                      <List.Item.Detail.Metadata.Label title="Project Dir" text={c.compose.workingDir} />
+                    ) : null}
+                  </Fragment>
+                ) : null}
+              </List.Item.Detail.Metadata>
             }
           />
-        ))}
+        ) : undefined
+      }
+    />
+  );
+}
+
+const SEVERITY_COLORS: Record<Severity, Color> = {
+  high: Color.Red,
+  medium: Color.Orange,
+  low: Color.Yellow,
+};
+
+function exposureIcon(e: Exposure) {
+  return { value: { source: Icon.Warning, tintColor: SEVERITY_COLORS[e.severity] }, tooltip: exposureReason(e) };
+}
+
+// =====================
+// Exposure audit
+// =====================
+async function exportExposureReport(report: string) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const path = join(homedir(), "Downloads", `exposure-report-${stamp}.md`);
+  try {
+    await writeFile(path, report, "utf8");
+    await showToast({ style: Toast.Style.Success, title: "Exported exposure report", message: path });
+    await showInFinder(path);
+  } catch (err: unknown) {
+    await showToast({ style: Toast.Style.Failure, title: "Export failed", message: getErrorMessage(err) });
+  }
+}
+
+function AuditSections({ exposures, onRefresh }: { exposures: Exposure[]; onRefresh: () => void }) {
+  const report = exposureReport(exposures, new Date(), hostname());
+  const reportActions = (
+    <ActionPanel.Section title="Report">
+      <Action
+        title="Export Report to Downloads"
+        icon={Icon.Download}
+        onAction={() => exportExposureReport(report)}
+        shortcut={{ modifiers: ["cmd"], key: "s" }}
+      />
+      <Action.CopyToClipboard
+        title="Copy Report as Markdown"
+        content={report}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action title="Edit Allowlist" icon={Icon.Gear} onAction={openExtensionPreferences} />
+    </ActionPanel.Section>
+  );
+  if (!exposures.length) {
+    return (
+      <List.Section title="Exposure Audit">
+        <List.Item
+          title="Nothing is exposed"
+          subtitle="Every listener is bound to loopback"
+          icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+          actions={<ActionPanel>{reportActions}</ActionPanel>}
+        />
       </List.Section>
-    </List>
+    );
+  }
+  const sections: { title: string; items: Exposure[] }[] = [
+    ...SEVERITIES.map((s) => ({
+      title: `${s[0].toUpperCase()}${s.slice(1)} Severity`,
+      items: exposures.filter((e) => !e.allowlisted && e.severity === s),
+    })),
+    { title: "Allowlisted", items: exposures.filter((e) => e.allowlisted) },
+  ];
+  return (
+    <Fragment>
+      {sections
+        .filter((s) => s.items.length)
+        .map((s) => (
+          <List.Section key={s.title} title={s.title} subtitle={String(s.items.length)}>
+            {s.items.map((e) => (
+              <ExposureItem key={e.key} exposure={e} reportActions={reportActions} onRefresh={onRefresh} />
+            ))}
+          </List.Section>
+        ))}
+    </Fragment>
+  );
+}
+
+function ExposureItem({
+  exposure: e,
+  reportActions,
+  onRefresh,
+}: {
+  exposure: Exposure;
+  reportActions: ReactNode;
+  onRefresh: () => void;
+}) {
+  const { listener, container } = e;
+  async function stopListener(l: Listener) {
+    const port = { port: l.port, proto: l.protocol };
+    await stopWithToast(`PID ${l.pid}`, (onProgress) =>
+      stopProcesses([l.pid], { graceMs: getGraceMs(), port, onProgress })
+    );
+    onRefresh();
+  }
+  async function stopContainer(c: DockerContainer) {
+    try {
+      await runContainerCommand("stop", c);
+      await showToast({ style: Toast.Style.Success, title: `Stopped ${c.name}` });
+    } catch (err: unknown) {
+      await showToast({ style: Toast.Style.Failure, title: `Failed to stop ${c.name}`, message: getErrorMessage(err) });
+    }
+    onRefresh();
+  }
+  return (
+    <List.Item
+      title={`:${e.port} ${e.owner}`}
+      subtitle={exposureReason(e)}
+      icon={e.allowlisted ? { source: Icon.CheckCircle, tintColor: Color.SecondaryText } : exposureIcon(e)}
+      accessories={
+        [
+          { text: e.address, tooltip: "Bound To" },
+          e.pid ? { text: `PID ${e.pid}`, tooltip: "Process ID" } : undefined,
+          { tag: { value: e.protocol.toUpperCase(), color: Color.SecondaryText } },
+        ].filter(Boolean) as List.Item.Accessory[]
+      }
+      actions={
+        <ActionPanel>
+          {listener ? (
+            <Action
+              title="Stop and Free Port"
+              icon={Icon.XMarkCircle}
+              onAction={() => stopListener(listener)}
+              shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+            />
+          ) : null}
+          {container && isContainerRunning(container) ? (
+            <Action
+              title="Stop Container"
+              icon={Icon.Stop}
+              onAction={() => stopContainer(container)}
+              shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+            />
+          ) : null}
+          <Action.CopyToClipboard title="Copy Port" content={String(e.port)} />
+          {reportActions}
+        </ActionPanel>
+      }
+    />
   );
 }
 
-function HostActions({ listener, onRefresh }: { listener: Listener; onRefresh: () => void }) {
-  const url = `http://localhost:${listener.port}`;
-  async function kill(sig: "TERM" | "KILL") {
+const GROWING_ACCESSORY: List.Item.Accessory = {
+  icon: { source: Icon.ArrowUp, tintColor: Color.Orange },
+  tooltip: "Memory grew steadily over the last two minutes",
+};
+
+// CPU and memory sparklines with min / avg / max, or nothing until there are two samples
+function historyMarkdown(history?: Sample[]) {
+  if (!history) return "";
+  const cpu = seriesOf(history, "cpu");
+  const mem = seriesOf(history, "memory");
+  const cpuStats = seriesStats(cpu);
+  const memStats = seriesStats(mem);
+  const growing = isMemoryGrowing(history);
+  const cpuChart = sparkline(cpu, "#3d8bfd");
+  const memChart = sparkline(mem, growing ? "#ff8c1a" : "#a970ff");
+  const pct = (v: number) => `${v.toFixed(1)}%`;
+  const parts: string[] = [];
+  if (cpuChart && cpuStats) {
+    parts.push(
+      `**CPU** · min ${pct(cpuStats.min)} · avg ${pct(cpuStats.avg)} · max ${pct(cpuStats.max)}\n\n${cpuChart}`
+    );
+  }
+  if (memChart && memStats) {
+    const range = `min ${formatMem(memStats.min)} · avg ${formatMem(memStats.avg)} · max ${formatMem(memStats.max)}`;
+    parts.push(`**Memory** · ${range}${growing ? " · **growing steadily**" : ""}\n\n${memChart}`);
+  }
+  return parts.length ? `\n\n${parts.join("\n\n")}` : "";
+}
+
+// "api-db :5432" for container ports, "my-app (Next.js) :3000" for projects, otherwise ":3000"
+function hostTitle(l: Listener) {
+  const label = l.container?.name || projectLabel(l);
+  return label ? `${label} :${l.port}` : `:${l.port}`;
+}
+
+// "postgres:16 via com.docker.backend" for container ports, otherwise the process name
+function ownerName(l: Listener) {
+  const name = l.displayName || l.cmd;
+  return l.container ? `${l.container.image} via ${name}` : name;
+}
+
+// e.g. "3 ports • 4.2% CPU • 512.0 MB"
+function groupSubtitle(g: ListenerGroup) {
+  const parts = [`${g.ports.length} ${g.ports.length === 1 ? "port" : "ports"}`];
+  if (g.cpu !== undefined) parts.push(`${g.cpu.toFixed(1)}% CPU`);
+  if (g.memory !== undefined) parts.push(formatMem(g.memory));
+  return parts.join(" • ");
+}
+
+// e.g. "HTTPS 200"
+function httpLabel(probe: HttpProbe) {
+  return `${probe.tls ? "HTTPS" : "HTTP"}${probe.status ? ` ${probe.status}` : ""}`;
+}
+
+function HostActions({
+  listener,
+  service,
+  catalog,
+  group,
+  tree,
+  sort,
+  bulk,
+  onRefresh,
+}: {
+  listener: Listener;
+  service?: ServiceMatch;
+  catalog: ServiceDef[];
+  group?: ListenerGroup;
+  tree?: ProcessTree;
+  sort: Sort;
+  bulk: Bulk;
+  onRefresh: () => void;
+}) {
+  const { editorApp, terminalApp } = getPreferenceValues<Preferences.ListLocalhosts>();
+  const launchRoot = tree && !listener.container ? findLaunchRoot(tree, listener.pid) : undefined;
+  const subtree = tree && !listener.container ? getSubtree(tree, launchRoot?.pid ?? listener.pid) : [];
+  const processGroup = tree && !listener.container ? getProcessGroup(tree, listener.pid) : [];
+  // A database port is no web page; the same check decides whether the port gets probed
+  const url = mayServeHttp(listener, catalog) ? listenerUrl(listener) : undefined;
+  const logFile = logFileFor(getLogDir(), listener);
+  async function kill(signal: Signal) {
+    const port = { port: listener.port, proto: listener.protocol };
+    await stopWithToast(`PID ${listener.pid}`, (onProgress) =>
+      stopProcesses([listener.pid], { signal, graceMs: getGraceMs(), port, onProgress })
+    );
+    onRefresh();
+  }
+  async function containerCommand(command: ContainerCommand, done: string) {
+    const container = listener.container;
+    if (!container) return;
     try {
-      await execa(KILL_PATH, ["-" + sig, String(listener.pid)]);
-      await showToast({ style: Toast.Style.Success, title: `Sent SIG${sig} to PID ${listener.pid}` });
+      await runContainerCommand(command, container);
+      await showToast({ style: Toast.Style.Success, title: `${done} ${container.name}` });
       onRefresh();
     } catch (err: unknown) {
       await showToast({
         style: Toast.Style.Failure,
-        title: `Failed to kill PID ${listener.pid}`,
+        title: `Failed to ${command} ${container.name}`,
         message: getErrorMessage(err),
       });
     }
   }
-  async function killByPort(sig: "TERM" | "KILL") {
-    try {
-      const count = await killOwnersByPort(listener.port, listener.protocol, sig);
-      await showToast({
-        style: Toast.Style.Success,
-        title: `Sent SIG${sig} to ${count} owner(s) of :${listener.port}`,
+  async function killGroup(signal: Signal) {
+    if (!group) return;
+    // Container ports go through docker; never signal Docker's own port proxy
+    const containers = [
+      ...new Map(group.listeners.flatMap((l) => (l.container ? [l.container] : [])).map((c) => [c.id, c])).values(),
+    ];
+    const proxyPids = new Set(group.listeners.filter((l) => l.container).map((l) => l.pid));
+    const pids = group.pids.filter((pid) => !proxyPids.has(pid));
+    const failed: string[] = [];
+    for (const c of containers) {
+      try {
+        await runContainerCommand(signal === "TERM" ? "stop" : "kill", c);
+      } catch {
+        failed.push(c.name);
+      }
+    }
+    if (pids.length) {
+      await stopWithToast(group.title, async (onProgress) => {
+        const report = await stopProcesses(pids, { signal, graceMs: getGraceMs(), onProgress });
+        // Containers are not PIDs; surface their failures through the same report
+        report.failed.push(...failed.map((name) => `${name} did not stop`));
+        return report;
       });
-      onRefresh();
-    } catch (err: unknown) {
+    } else {
       await showToast({
-        style: Toast.Style.Failure,
-        title: "Kill-by-Port Failed",
-        message: getErrorMessage(err),
+        style: failed.length ? Toast.Style.Failure : Toast.Style.Success,
+        title: failed.length ? `Failed to stop ${failed.join(", ")}` : `Stopped ${containers.length} container(s)`,
       });
     }
+    onRefresh();
+  }
+  async function stopEntries(entries: ProcessEntry[], what: string) {
+    const count = `${entries.length} ${entries.length === 1 ? "process" : "processes"}`;
+    if (
+      !(await confirmAlert({
+        title: `Stop ${what}?`,
+        message: `Sends SIGTERM to ${count}, then SIGKILL to any still running after the grace period:\n\n${describeProcesses(entries)}`,
+        primaryAction: { title: `Stop ${count}`, style: Alert.ActionStyle.Destructive },
+      }))
+    ) {
+      return;
+    }
+    const port = { port: listener.port, proto: listener.protocol };
+    await stopWithToast(what, (onProgress) =>
+      stopProcesses(
+        entries.map((e) => e.pid),
+        { graceMs: getGraceMs(), port, onProgress }
+      )
+    );
+    onRefresh();
+  }
+  async function killByPort(signal: Signal) {
+    await stopWithToast(`owners of :${listener.port}`, (onProgress) =>
+      killOwnersByPort(listener.port, listener.protocol, { signal, graceMs: getGraceMs(), onProgress })
+    );
+    onRefresh();
   }
   return (
     <ActionPanel>
-      <Action.OpenInBrowser url={url} title={`Open ${url}`} />
+      {url ? <Action.OpenInBrowser url={url} title={`Open ${url}`} /> : null}
+      {service ? <ServiceActions match={service} /> : null}
+      {listener.protocol === "tcp" ? (
+        <Action.Push
+          title="Show Connections"
+          icon={Icon.Plug}
+          target={
+            <Connections
+              listener={listener}
+              onStopClient={(pid, name, signal) =>
+                stopWithToast(`${name} (PID ${pid})`, (onProgress) =>
+                  stopProcesses([pid], { signal, graceMs: getGraceMs(), onProgress })
+                )
+              }
+            />
+          }
+          shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+        />
+      ) : null}
       <Action.CopyToClipboard title="Copy Address" content={`${listener.address}:${listener.port}`} />
       <Action.CopyToClipboard title="Copy PID" content={String(listener.pid)} />
-      <Action.CopyToClipboard title="Copy Command" content={listener.cmdline || listener.execPath || listener.cmd} />
+      <Action.CopyToClipboard title="Copy Command" content={launchCommandLine(listener)} />
       {listener.execPath ? <Action.ShowInFinder path={listener.execPath} title="Reveal App in Finder" /> : null}
       {listener.cwd ? <Action.Open title="Open Working Folder" target={listener.cwd} /> : null}
-      <ActionPanel.Section title="Stop App (by PID)">
-        <Action
-          title="Stop Nicely — Recommended"
-          icon={Icon.XMarkCircle}
-          onAction={() => kill("TERM")}
-          shortcut={{ modifiers: ["cmd"], key: "backspace" }}
-        />
-        <Action
-          title="Force Stop — If Stuck"
-          style={Action.Style.Destructive}
-          icon={Icon.Trash}
-          onAction={() => kill("KILL")}
-          shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
-        />
-      </ActionPanel.Section>
-      <ActionPanel.Section title={`Stop Whoever Uses :${listener.port}`}>
-        <Action title="Stop by Port (Nice)" icon={Icon.XMarkCircle} onAction={() => killByPort("TERM")} />
-        <Action
-          title="Stop by Port (Force)"
-          style={Action.Style.Destructive}
-          icon={Icon.Trash}
-          onAction={() => killByPort("KILL")}
-        />
-      </ActionPanel.Section>
+      {listener.project ? (
+        <ActionPanel.Section title={`Project ${listener.project.name}`}>
+          <Action.Open
+            title={`Open Project in ${editorApp?.name ?? "Editor"}`}
+            icon={Icon.Code}
+            target={listener.project.root}
+            application={editorApp}
+            shortcut={{ modifiers: ["cmd"], key: "e" }}
+          />
+          <Action.Open
+            title={`Open Project in ${terminalApp?.name ?? "Terminal"}`}
+            icon={Icon.Terminal}
+            target={listener.project.root}
+            application={terminalApp}
+            shortcut={{ modifiers: ["cmd"], key: "t" }}
+          />
+          <Action.CopyToClipboard title="Copy Project Root" content={listener.project.root} />
+        </ActionPanel.Section>
+      ) : null}
+      {listener.container ? (
+        // Published by a container: stopping the PID would take down Docker itself
+        <ActionPanel.Section title={`Container ${listener.container.name}`}>
+          <Action
+            title="Stop Container"
+            icon={Icon.Stop}
+            onAction={() => containerCommand("stop", "Stopped")}
+            shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+          />
+          <Action
+            title="Kill Container"
+            style={Action.Style.Destructive}
+            icon={Icon.Trash}
+            onAction={() => containerCommand("kill", "Killed")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+          />
+          <Action
+            title="Restart Container"
+            icon={Icon.RotateClockwise}
+            onAction={() => containerCommand("restart", "Restarted")}
+          />
+          <Action.CopyToClipboard title="Copy Container Name" content={listener.container.name} />
+        </ActionPanel.Section>
+      ) : (
+        <ActionPanel.Section title="Stop App (by PID)">
+          <Action
+            title="Stop and Free Port — Recommended"
+            icon={Icon.XMarkCircle}
+            onAction={() => kill("TERM")}
+            shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+          />
+          <Action
+            title="Force Stop — If Stuck"
+            style={Action.Style.Destructive}
+            icon={Icon.Trash}
+            onAction={() => kill("KILL")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+          />
+          <Action
+            title="Restart"
+            icon={Icon.RotateClockwise}
+            onAction={async () => {
+              await relaunchWithToast(listener, listener.displayName || listener.cmd, [listener.pid]);
+              onRefresh();
+            }}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+          />
+          {existsSync(logFile) ? (
+            <Action.Push
+              title="View Output"
+              icon={Icon.Document}
+              target={
+                <ProcessLog logFile={logFile} title={`:${listener.port} ${listener.displayName || listener.cmd}`} />
+              }
+              shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+            />
+          ) : null}
+        </ActionPanel.Section>
+      )}
+      {launchRoot || subtree.length > 1 || processGroup.length > 1 ? (
+        <ActionPanel.Section title="Process Tree">
+          {launchRoot ? (
+            <Action
+              title={`Stop Parent Script (PID ${launchRoot.pid})`}
+              icon={Icon.XMarkCircle}
+              onAction={() => stopEntries([launchRoot], `parent script ${launchRoot.pid}`)}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "backspace" }}
+            />
+          ) : null}
+          {subtree.length > 1 ? (
+            <Action
+              title={`Stop Whole Tree (${subtree.length} Processes)`}
+              style={Action.Style.Destructive}
+              icon={Icon.Trash}
+              onAction={() => stopEntries(subtree, `process tree of ${subtree[0].pid}`)}
+            />
+          ) : null}
+          {processGroup.length > 1 ? (
+            <Action
+              title={`Stop Process Group ${processGroup[0].pgid} (${processGroup.length} Processes)`}
+              style={Action.Style.Destructive}
+              icon={Icon.Trash}
+              onAction={() => stopEntries(processGroup, `process group ${processGroup[0].pgid}`)}
+            />
+          ) : null}
+        </ActionPanel.Section>
+      ) : null}
+      {group ? (
+        <ActionPanel.Section title={`Group ${group.title}`}>
+          <Action title="Stop Group Nicely" icon={Icon.XMarkCircle} onAction={() => killGroup("TERM")} />
+          <Action
+            title="Force Stop Group"
+            style={Action.Style.Destructive}
+            icon={Icon.Trash}
+            onAction={() => killGroup("KILL")}
+          />
+          <Action.CopyToClipboard title="Copy All Ports" content={group.ports.join(", ")} />
+        </ActionPanel.Section>
+      ) : null}
+      {listener.container ? null : (
+        <ActionPanel.Section title={`Stop Whoever Uses :${listener.port}`}>
+          <Action title="Stop by Port (Nice)" icon={Icon.XMarkCircle} onAction={() => killByPort("TERM")} />
+          <Action
+            title="Stop by Port (Force)"
+            style={Action.Style.Destructive}
+            icon={Icon.Trash}
+            onAction={() => killByPort("KILL")}
+          />
+        </ActionPanel.Section>
+      )}
+      <BulkActions bulk={bulk} listener={listener} />
       <ActionPanel.Section>
+        <SortSubmenu sort={sort} />
         <Action.Push title="Help & Glossary" icon={Icon.QuestionMark} target={<Help />} />
         <Action title="Refresh" icon={Icon.RotateClockwise} onAction={onRefresh} />
       </ActionPanel.Section>
@@ -694,60 +1415,114 @@ function HostActions({ listener, onRefresh }: { listener: Listener; onRefresh: (
   );
 }
 
-function DockerActions({ container, onRefresh }: { container: DockerContainer; onRefresh: () => void }) {
-  async function stop() {
-    const dockerPath = await findDockerPath();
-    if (!dockerPath) return;
+function serviceLabel(match: ServiceMatch) {
+  return match.isAdmin ? `${match.service.name} UI` : match.service.name;
+}
 
-    try {
-      await execa(dockerPath, ["stop", container.id]);
-      await showToast({ style: Toast.Style.Success, title: `Stopped ${container.name}` });
-      onRefresh();
-    } catch (err: unknown) {
-      await showToast({
-        style: Toast.Style.Failure,
-        title: `Failed to stop ${container.name}`,
-        message: getErrorMessage(err),
-      });
-    }
-  }
-  async function start() {
-    const dockerPath = await findDockerPath();
-    if (!dockerPath) return;
+// Connection details of a recognized service (Postgres, Redis, …), filled in for this port
+function ServiceActions({ match }: { match: ServiceMatch }) {
+  if (!match.url && !match.cli && !match.adminUrl) return null;
+  return (
+    <ActionPanel.Section title={serviceLabel(match)}>
+      {match.url ? (
+        <Action.CopyToClipboard
+          title="Copy Connection URL"
+          content={match.url}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+        />
+      ) : null}
+      {match.cli ? (
+        <Action.CopyToClipboard
+          title="Copy CLI Command"
+          icon={Icon.Terminal}
+          content={match.cli}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+        />
+      ) : null}
+      {match.adminUrl ? (
+        <Action.OpenInBrowser
+          title={`Open ${match.service.name} Admin UI`}
+          url={match.adminUrl}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+        />
+      ) : null}
+    </ActionPanel.Section>
+  );
+}
 
+function DockerActions({
+  container,
+  service,
+  showStopped,
+  onToggleStopped,
+  sort,
+  bulk,
+  onRefresh,
+}: {
+  container: DockerContainer;
+  service?: ServiceMatch;
+  showStopped: boolean;
+  onToggleStopped: () => void;
+  sort: Sort;
+  bulk: Bulk;
+  onRefresh: () => void;
+}) {
+  const compose = container.compose;
+  const running = isContainerRunning(container);
+  async function runCompose(command: ComposeCommand, done: string, service?: string) {
+    if (!compose) return;
+    const target = service ? `${compose.project}/${service}` : compose.project;
+    if (
+      command === "down" &&
+      !(await confirmAlert({
+        title: `Take down ${compose.project}?`,
+        message: "Stops and removes all of the project's containers and networks. Volumes are kept.",
+        primaryAction: { title: "Down", style: Alert.ActionStyle.Destructive },
+      }))
+    ) {
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Running compose ${command} on ${target}…` });
     try {
-      await execa(dockerPath, ["start", container.id]);
-      await showToast({ style: Toast.Style.Success, title: `Started ${container.name}` });
+      await runComposeCommand(container, command, service);
+      toast.style = Toast.Style.Success;
+      toast.title = `${done} ${target}`;
       onRefresh();
     } catch (err: unknown) {
-      await showToast({
-        style: Toast.Style.Failure,
-        title: `Failed to start ${container.name}`,
-        message: getErrorMessage(err),
-      });
+      toast.style = Toast.Style.Failure;
+      toast.title = `Failed to ${command} ${target}`;
+      toast.message = getErrorMessage(err);
     }
   }
-  async function restart() {
-    const dockerPath = await findDockerPath();
-    if (!dockerPath) return;
-
+  async function run(command: ContainerCommand, done: string) {
+    if (
+      command === "rm" &&
+      !(await confirmAlert({
+        title: `Remove ${container.name}?`,
+        message: "The container and its writable layer are deleted. Named volumes are kept.",
+        primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+      }))
+    ) {
+      return;
+    }
     try {
-      await execa(dockerPath, ["restart", container.id]);
-      await showToast({ style: Toast.Style.Success, title: `Restarted ${container.name}` });
+      await runContainerCommand(command, container);
+      await showToast({ style: Toast.Style.Success, title: `${done} ${container.name}` });
       onRefresh();
     } catch (err: unknown) {
       await showToast({
         style: Toast.Style.Failure,
-        title: `Failed to restart ${container.name}`,
+        title: `Failed to ${command} ${container.name}`,
         message: getErrorMessage(err),
       });
     }
   }
 
-  const openable = container.ports.filter((p) => p.hostPort);
+  const openable = container.ports.filter((p) => p.hostPort && isBrowsablePort(p.containerPort, service));
 
   return (
     <ActionPanel>
+      {service ? <ServiceActions match={service} /> : null}
       {openable.length > 0 ? (
         <ActionPanel.Section title="Open Published Ports">
           {openable.map((p) => (
@@ -759,21 +1534,232 @@ function DockerActions({ container, onRefresh }: { container: DockerContainer; o
           ))}
         </ActionPanel.Section>
       ) : null}
+      <Action.Push
+        title="Inspect Container"
+        icon={Icon.MagnifyingGlass}
+        target={<ContainerInspect container={container} />}
+        shortcut={{ modifiers: ["cmd"], key: "i" }}
+      />
+      <Action.Push
+        title="View Logs"
+        icon={Icon.Document}
+        target={<ContainerLogs container={container} />}
+        shortcut={{ modifiers: ["cmd"], key: "l" }}
+      />
       <Action.CopyToClipboard title="Copy Container Name" content={container.name} />
       <Action.CopyToClipboard title="Copy Container ID" content={container.id} />
       <Action.CopyToClipboard title="Copy Image" content={container.image} />
       <ActionPanel.Section title="Lifecycle">
-        <Action title="Stop" icon={Icon.Stop} onAction={stop} />
-        <Action title="Start" icon={Icon.Play} onAction={start} />
-        <Action title="Restart" icon={Icon.RotateClockwise} onAction={restart} />
+        {running ? (
+          <Fragment>
+            <Action title="Stop" icon={Icon.Stop} onAction={() => run("stop", "Stopped")} />
+            <Action title="Restart" icon={Icon.RotateClockwise} onAction={() => run("restart", "Restarted")} />
+          </Fragment>
+        ) : (
+          <Fragment>
+            <Action title="Start" icon={Icon.Play} onAction={() => run("start", "Started")} />
+            <Action
+              title="Remove Container"
+              style={Action.Style.Destructive}
+              icon={Icon.Trash}
+              onAction={() => run("rm", "Removed")}
+            />
+          </Fragment>
+        )}
+        {compose ? (
+          <Action
+            title="Restart Service"
+            icon={Icon.RotateClockwise}
+            onAction={() => runCompose("restart", "Restarted", compose.service)}
+          />
+        ) : null}
       </ActionPanel.Section>
+      {compose ? (
+        <ActionPanel.Section title={`Compose Project ${compose.project}`}>
+          <Action title="Stop Project" icon={Icon.Stop} onAction={() => runCompose("stop", "Stopped")} />
+          <Action title="Start Project" icon={Icon.Play} onAction={() => runCompose("start", "Started")} />
+          <Action
+            title="Restart Project"
+            icon={Icon.RotateClockwise}
+            onAction={() => runCompose("restart", "Restarted")}
+          />
+          <Action
+            title="Down Project"
+            style={Action.Style.Destructive}
+            icon={Icon.Trash}
+            onAction={() => runCompose("down", "Took down")}
+          />
+          {compose.workingDir ? (
+            <Action.Open title="Open Compose Directory" icon={Icon.Folder} target={compose.workingDir} />
+          ) : null}
+          {compose.configFiles[0] ? (
+            <Action.ShowInFinder title="Reveal Compose File" path={compose.configFiles[0]} />
+          ) : null}
+        </ActionPanel.Section>
+      ) : null}
+      <ActionPanel.Section title="Stopped Containers">
+        <ToggleStoppedAction showStopped={showStopped} onToggle={onToggleStopped} />
+        <Action
+          title="Prune All Stopped Containers"
+          style={Action.Style.Destructive}
+          icon={Icon.Trash}
+          onAction={async () => {
+            if (
+              !(await confirmAlert({
+                title: "Remove all stopped containers?",
+                message:
+                  "Runs container prune in every detected runtime. Running containers and volumes are not affected.",
+                primaryAction: { title: "Prune", style: Alert.ActionStyle.Destructive },
+              }))
+            ) {
+              return;
+            }
+            try {
+              const count = await pruneStoppedContainers(getRuntimeConfig());
+              await showToast({ style: Toast.Style.Success, title: `Removed ${count} stopped container(s)` });
+              onRefresh();
+            } catch (err: unknown) {
+              await showToast({ style: Toast.Style.Failure, title: "Prune failed", message: getErrorMessage(err) });
+            }
+          }}
+        />
+      </ActionPanel.Section>
+      <BulkActions bulk={bulk} container={container} />
       <ActionPanel.Section>
+        <SortSubmenu sort={sort} />
         <Action title="Refresh" icon={Icon.RotateClockwise} onAction={onRefresh} />
       </ActionPanel.Section>
     </ActionPanel>
   );
 }
 
+// =====================
+// Sorting
+// =====================
+type Sort = { mode: SortMode; onChange: (mode: SortMode) => void };
+
+function SortSubmenu({ sort }: { sort: Sort }) {
+  return (
+    <ActionPanel.Submenu title="Sort by" icon={Icon.ArrowDown} shortcut={{ modifiers: ["cmd", "opt"], key: "s" }}>
+      {SORT_MODES.map((m) => (
+        <Action
+          key={m.value}
+          title={m.title}
+          icon={m.value === sort.mode ? Icon.Checkmark : Icon.Circle}
+          onAction={() => sort.onChange(m.value)}
+        />
+      ))}
+    </ActionPanel.Submenu>
+  );
+}
+
+// =====================
+// Bulk actions
+// =====================
+type BulkRows = { listeners: Listener[]; containers: DockerContainer[] };
+
+type Bulk = {
+  all: BulkRows;
+  visible: BulkRows;
+  marked: BulkRows;
+  isMarked: (key: string) => boolean;
+  toggleMark: (key: string) => void;
+  clearMarks: () => void;
+  onDone: () => void;
+};
+
+function hostKey(l: Listener) {
+  return `${l.pid}-${l.address}-${l.port}-${l.protocol}`;
+}
+
+// "postgres" for "postgres:16" and "docker.io/library/postgres@sha256:…"
+function imageName(image: string) {
+  return basename(image.split("@")[0].replace(/:[^/:]+$/, "")) ?? image;
+}
+
+async function confirmBulkStop(plan: BulkPlan, what: string, onDone: () => void) {
+  const count = planSize(plan);
+  if (
+    !(await confirmAlert({
+      title: `Stop ${what}?`,
+      message: `Processes get SIGTERM, then SIGKILL after the grace period; containers are stopped.\n\n${describePlan(plan)}`,
+      primaryAction: { title: `Stop ${count}`, style: Alert.ActionStyle.Destructive },
+    }))
+  ) {
+    return;
+  }
+  const toast = await showToast({ style: Toast.Style.Animated, title: `Stopping ${what}…` });
+  const { stopped, failed } = await runBulkStop(plan, getGraceMs(), (status) => (toast.message = status));
+  toast.style = failed.length ? Toast.Style.Failure : Toast.Style.Success;
+  toast.title = `Stopped ${stopped} of ${count}`;
+  toast.message = failed.length ? `Failed: ${failed.join(", ")}` : undefined;
+  onDone();
+}
+
+function BulkActions({ bulk, listener, container }: { bulk: Bulk; listener?: Listener; container?: DockerContainer }) {
+  const key = listener ? hostKey(listener) : container?.id;
+  const plans: { title: string; what: string; plan: BulkPlan }[] = [];
+  const add = (title: string, what: string, rows: BulkRows, minimum = 2) => {
+    const plan = planBulkStop(rows.listeners, rows.containers);
+    if (planSize(plan) >= minimum) plans.push({ title: `${title} (${planSize(plan)})`, what, plan });
+  };
+
+  add("Stop Marked", "marked rows", bulk.marked, 1);
+  add("Stop All Visible", "all visible rows", bulk.visible);
+  if (listener && !listener.container) {
+    const name = listener.displayName || listener.cmd;
+    const sameName = bulk.all.listeners.filter((l) => !l.container && (l.displayName || l.cmd) === name);
+    add(`Stop All ${name}`, `every ${name} process`, { listeners: sameName, containers: [] });
+    if (listener.user) {
+      const user = listener.user;
+      const sameUser = bulk.all.listeners.filter((l) => !l.container && l.user === user);
+      add(`Stop All of ${user}`, `every process of ${user}`, { listeners: sameUser, containers: [] });
+    }
+  }
+  const image = container ?? listener?.container;
+  if (image) {
+    const name = imageName(image.image);
+    const sameImage = bulk.all.containers.filter((c) => imageName(c.image) === name);
+    add(`Stop All from ${name}`, `every ${name} container`, { listeners: [], containers: sameImage });
+  }
+
+  return (
+    <ActionPanel.Section title="Bulk Actions">
+      {key ? (
+        <Action
+          title={bulk.isMarked(key) ? "Unmark" : "Mark for Bulk Stop"}
+          icon={bulk.isMarked(key) ? Icon.Circle : Icon.CheckCircle}
+          onAction={() => bulk.toggleMark(key)}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+        />
+      ) : null}
+      {plans.map((p) => (
+        <Action
+          key={p.title}
+          title={p.title}
+          style={Action.Style.Destructive}
+          icon={Icon.XMarkCircle}
+          onAction={() => confirmBulkStop(p.plan, p.what, bulk.onDone)}
+        />
+      ))}
+      {bulk.marked.listeners.length + bulk.marked.containers.length ? (
+        <Action title="Clear Marks" icon={Icon.Eraser} onAction={bulk.clearMarks} />
+      ) : null}
+    </ActionPanel.Section>
+  );
+}
+
+function ToggleStoppedAction({ showStopped, onToggle }: { showStopped: boolean; onToggle: () => void }) {
+  return (
+    <Action
+      title={showStopped ? "Hide Stopped Containers" : "Show Stopped Containers"}
+      icon={showStopped ? Icon.EyeDisabled : Icon.Eye}
+      onAction={onToggle}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+    />
+  );
+}
+
 function Help() {
   const md = `# Localhost Manager — Help
 
@@ -788,21 +1774,72 @@ Key terms (in plain English)
 - UID: The numeric form of the user. You can ignore this unless you know you need it.
 
 Stopping things — which action should I use?
-- Stop nicely — recommended: Sends SIGTERM. It politely asks the app to shut down and clean up. Try this first.
-- Force stop — if stuck: Sends SIGKILL. Instantly stops the app without cleanup. Use only if “Stop nicely” didn’t work.
+- Stop and free port — recommended: Sends SIGTERM, which politely asks the app to shut down and clean up, then waits until it has exited and the port is free. If it is still running after the grace period (5 seconds unless changed in the preferences), it is force stopped.
+- Force stop — if stuck: Sends SIGKILL. Instantly stops the app without cleanup.
 - Stop by port: When you only care about freeing a port (say :3000) and don’t know the exact process, this targets whoever is using that port. There is a nice and a force variant, same rules as above.
+- Process tree: Dev servers are often started by a script (npm run dev, turbo, nodemon) that restarts them when they exit. “Stop parent script” stops that script; “Stop whole tree” and “Stop process group” stop it together with everything it started. You see the list of PIDs before anything is stopped, and Advanced view draws the tree in the detail panel.
+- Restart (⌘ ⇧ R): stops the app, waits until the port is free, and starts the same command again in the same folder, the way your terminal would. On a Recently Closed row the same shortcut is “Relaunch”. The app keeps running after Raycast closes; its output goes to a log you can open with “View output” (⌘ ⇧ O).
+- The toast tells you what really happened: stopped, force-stopped, still running, or taken over by a new process (a file watcher restarting the server, for example). Apps owned by another user cannot be stopped without administrator rights.
+- Ports published by Docker containers are owned by Docker’s port proxy (com.docker.backend, vpnkit, docker-proxy; gvproxy or rootlessport for Podman). These rows show the container name and image, and their stop actions stop or kill the container instead of killing Docker itself.
+
+Connections
+- “Show connections” (⌘ ⇧ N) lists who is connected to a TCP port right now: the client’s address and, if it runs on this Mac, its PID and name. Handy for “who keeps my database busy?”.
+- The panel on the right counts connections by state (ESTABLISHED means in use; TIME_WAIT and CLOSE_WAIT are connections winding down), local client apps and remote hosts.
+- Stop the client process from there (⌘ ⌫) to release its connections without touching the server.
 
 Open in browser
-- Quickly opens http://localhost:<port>. Works for HTTP services.
+- Each TCP port is quietly checked for a web server in the background. Web servers get a globe icon and their status code and page title; HTTPS servers open with https://.
+- Ports that don't speak HTTP (databases, caches, gRPC) have no open action.
+
+Databases and other services
+- Postgres, MySQL, Redis, MongoDB, RabbitMQ, Kafka, MinIO, MailHog and other common services are recognized by their Docker image, process name or port, and tagged with their name.
+- Their actions copy a ready-to-use connection URL (⌘ ⇧ U) or terminal command (⌘ ⇧ K), with the right port even when a container publishes it elsewhere, and open the web admin page (⌘ ⇧ A) when there is one.
+- Your own services can be added in a JSON file chosen in the Service Catalog preference; the README shows the format.
 
 Simple vs Advanced view
 - Simple: Minimal info, fewer distractions.
 - Advanced: Full details (address, UID, paths, CPU/memory) with a right‑hand panel.
+- History: while the list is open, CPU and memory are sampled on every refresh. Advanced view charts the last two minutes with min, average and max. An orange arrow means memory kept growing the whole time (a possible leak); a single spike does not count.
+- Group by Process / Project: One section per process (or per detected project) with combined CPU and memory. Use the group actions to stop the whole group or copy all of its ports.
+
+Exposure audit
+- Apps listening on all network interfaces (* or 0.0.0.0) can be reached by other devices on your network. A warning icon marks them: red for databases and debuggers, orange for dev servers and admin consoles, yellow for everything else.
+- “Exposure Audit” in the view dropdown lists only those, grouped by severity, and exports a Markdown report (⌘ S).
+- Expected ones (AirPlay, a shared preview server) can be added to the Exposure Allowlist preference by port or name.
 
 Options
 - Hide system processes: hides background macOS daemons and other-user processes.
 - Hide 0% CPU badges: removes the “0.0% CPU” accessory to reduce noise.
 
+Sorting
+- Sort by in the actions (⌘ ⌥ S) sorts by port (default), CPU, memory, uptime, most recently started or process name. Your choice is remembered.
+- Sorting by uptime or start time shows how long each app has been running (“up 2h 14m”); sorting by memory shows its memory use.
+- Containers follow the same choice; for uptime they are sorted by when the container was created.
+
+Search
+- Plain words match anywhere: port, process name, full command line, working folder, address, user, project, container name or image. Every word has to match.
+- Filters: port:3000, port:3000-3999, proto:udp, user:me, cmd:node, cwd:~/work/api, addr:public (reachable from other devices) or addr:local, pid:1234, image:postgres, project:api.
+- Numbers can be compared: cpu>5, mem>500mb, port<1024.
+- Put - in front of any term to exclude it: -user:root, -proto:udp, -chrome.
+- Terms that can't be understood are listed in red at the top and ignored.
+
+Recently closed
+- Apps that stopped listening in the last 24 hours (change or turn off in the preferences) are listed at the bottom with the command and folder they ran with, so a crashed server is easy to start again.
+- Search works on them too. Forget one entry with ⌃ X, or clear the whole history with ⌃ ⇧ X.
+
+Check Port command
+- Type “Check Port” in Raycast followed by a port (3000) to see whether it is free and who is using it, or a range (3000-3100) to get free ports to copy.
+- It tries to open the port itself, over TCP and UDP and IPv4 and IPv6, so it also notices ports taken by other users or macOS that this list can’t show.
+
+Menu bar
+- Turn on the “Localhost Menu Bar” command to see how many of your apps are listening right in the macOS menu bar. Click it to open, copy or stop any of them.
+- Pin the ports you care about in its preferences (3000, 5432): the menu bar then shows how many of those are running, like 2/3.
+
+Bulk actions
+- Type in the search bar to narrow the list, then use “Stop all visible” to stop everything that is left. Or mark rows one by one (⌘ ⇧ M) and use “Stop marked”.
+- “Stop all node” stops every process with the same name, “Stop all of me” every process of that user, and “Stop all from postgres” every container from that image.
+- You always see the full list of processes and containers first.
+
 Tips
 - 127.0.0.1 and ::1 are the same as “localhost”.
 - 0.0.0.0 or * means “all network interfaces” (the app is reachable from other devices on your network, if your firewall allows it).
@@ -0,0 +1,271 @@
+import {
+  Cache,
+  Clipboard,
+  environment,
+  getPreferenceValues,
+  Icon,
+  launchCommand,
+  LaunchType,
+  MenuBarExtra,
+  open,
+  openCommandPreferences,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { getGraceMs, getRuntimeConfig, loadServiceCatalog, stopWithToast } from "./components/shared";
+import { findOwningContainer, getDockerContainers, runContainerCommand, type ContainerCommand } from "./lib/docker";
+import { listenerUrl, probeKey, probeListeners } from "./lib/http-probe";
+import { collectListeners } from "./lib/listeners";
+import { parsePortList } from "./lib/ports";
+import { detectRuntimes } from "./lib/runtime";
+import { identifyContainer, isBrowsablePort, mayServeHttp } from "./lib/services";
+import { stopProcesses } from "./lib/stop";
+import type { DockerContainer, HttpProbe, Listener } from "./lib/types";
+import { getErrorMessage } from "./lib/utils";
+import { platform, type Signal } from "./platform";
+
+// =====================
+// Menu bar command: listener count in the menu bar, quick actions per port
+// =====================
+// Raycast relaunches the command on the manifest's interval; the last rows are cached so the menu bar shows
+// them right away instead of an empty title while the next scan runs. Listeners are only probed for HTTP when
+// the user opens the menu; background refreshes reuse the cached results.
+
+type Row = {
+  key: string;
+  port: number;
+  protocol: "tcp" | "udp";
+  name: string; // process, or container
+  url?: string;
+  listener?: Listener; // absent for container ports whose proxy is a system process (rootful Docker on Linux)
+  container?: DockerContainer;
+};
+
+const cache = new Cache();
+const CACHE_KEY = "menu-bar-rows";
+
+function cachedRows(): Row[] | undefined {
+  try {
+    const raw = cache.get(CACHE_KEY);
+    return raw ? (JSON.parse(raw) as Row[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Probe results of the previous rows, for refreshes that do not probe
+function previousProbes(rows: Row[] | undefined): Record<string, HttpProbe> {
+  const out: Record<string, HttpProbe> = {};
+  for (const r of rows ?? []) if (r.listener?.http) out[probeKey(r.listener)] = r.listener.http;
+  return out;
+}
+
+/**
+ * The user's own listeners, the same ones "Hide system processes" leaves in the main view, plus published
+ * container ports. IPv4 and IPv6 binds of one port count once. Without `probe`, HTTP results come from `previous`.
+ */
+async function collectRows(probe: boolean, previous: Row[] | undefined): Promise<Row[]> {
+  const config = getRuntimeConfig();
+  const [listeners, runtimes, catalog] = await Promise.all([
+    collectListeners(),
+    detectRuntimes(config).catch(() => []),
+    loadServiceCatalog(probe),
+  ]);
+  const containers = runtimes.length ? await getDockerContainers(config).catch(() => []) : [];
+  const owned = listeners
+    .map((l) => ({ ...l, container: findOwningContainer(l, containers) }))
+    .filter((l) => l.container || !platform.isSystem(l));
+  const probes = probe
+    ? await probeListeners(owned, catalog).catch((): Record<string, HttpProbe> => ({}))
+    : previousProbes(previous);
+
+  const rows = new Map<string, Row>();
+  for (const l of owned) {
+    const container = l.container;
+    const key = container ? `ctr-${container.id}-${l.port}-${l.protocol}` : `${l.pid}-${l.port}-${l.protocol}`;
+    if (rows.has(key)) continue;
+    const listener = { ...l, http: probes[probeKey(l)] };
+    rows.set(key, {
+      key,
+      port: l.port,
+      protocol: l.protocol,
+      name: container ? container.name : l.displayName || l.cmd,
+      // Databases and other services that do not speak HTTP get no "Open" item
+      url: mayServeHttp(listener, catalog) ? listenerUrl(listener) : undefined,
+      listener,
+      container,
+    });
+  }
+  for (const c of containers) {
+    for (const p of c.ports) {
+      if (p.hostPort === undefined) continue;
+      const protocol = p.protocol === "udp" ? "udp" : "tcp";
+      const key = `ctr-${c.id}-${p.hostPort}-${protocol}`;
+      if (rows.has(key)) continue;
+      rows.set(key, {
+        key,
+        port: p.hostPort,
+        protocol,
+        name: c.name,
+        url:
+          protocol === "tcp" && isBrowsablePort(p.containerPort, identifyContainer(c, catalog))
+            ? `http://localhost:${p.hostPort}`
+            : undefined,
+        container: c,
+      });
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol));
+}
+
+function openManager() {
+  return launchCommand({ name: "list-localhosts", type: LaunchType.UserInitiated });
+}
+
+export default function Command() {
+  const { menuBarPinnedPorts } = getPreferenceValues<Preferences.MenuBar>();
+  const pinned = parsePortList(menuBarPinnedPorts);
+  const [rows, setRows] = useState<Row[] | undefined>(cachedRows);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Opening the menu is a user-initiated launch; the interval's are background ones
+  const load = useCallback(async (probe = environment.launchType === LaunchType.UserInitiated) => {
+    setIsLoading(true);
+    try {
+      const next = await collectRows(probe, cachedRows());
+      setRows(next);
+      cache.set(CACHE_KEY, JSON.stringify(next));
+    } catch (err: unknown) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to list ports", message: getErrorMessage(err) });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function stop(row: Row, signal: Signal) {
+    const l = row.listener;
+    if (!l) return;
+    await stopWithToast(`${row.name} (:${row.port})`, (onProgress) =>
+      stopProcesses([l.pid], { signal, graceMs: getGraceMs(), port: { port: l.port, proto: l.protocol }, onProgress })
+    );
+    load();
+  }
+  // Container ports go through the runtime; never signal Docker's own port proxy
+  async function containerCommand(c: DockerContainer, command: ContainerCommand, done: string) {
+    try {
+      await runContainerCommand(command, c);
+      await showHUD(`${done} ${c.name}`);
+      load();
+    } catch (err: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to ${command} ${c.name}`,
+        message: getErrorMessage(err),
+      });
+    }
+  }
+
+  const list = rows ?? [];
+  const pinnedRows = list.filter((r) => pinned.includes(r.port));
+  const otherRows = list.filter((r) => !pinned.includes(r.port));
+  const upCount = new Set(pinnedRows.map((r) => r.port)).size;
+  const title = rows === undefined ? undefined : pinned.length ? `${upCount}/${pinned.length}` : String(list.length);
+
+  const rowMenu = (r: Row) => (
+    <MenuBarExtra.Submenu
+      key={r.key}
+      title={`:${r.port}${r.protocol === "udp" ? " UDP" : ""}  ${r.name}`}
+      icon={r.container ? Icon.Box : r.url ? Icon.Globe : Icon.Terminal}
+    >
+      {r.url ? <MenuBarExtra.Item title={`Open ${r.url}`} icon={Icon.Globe} onAction={() => open(r.url!)} /> : null}
+      <MenuBarExtra.Item
+        title="Copy Address"
+        icon={Icon.Clipboard}
+        onAction={async () => {
+          await Clipboard.copy(`localhost:${r.port}`);
+          await showHUD(`Copied localhost:${r.port}`);
+        }}
+      />
+      {r.container ? (
+        <MenuBarExtra.Section>
+          <MenuBarExtra.Item
+            title="Stop Container"
+            icon={Icon.Stop}
+            onAction={() => containerCommand(r.container!, "stop", "Stopped")}
+          />
+          <MenuBarExtra.Item
+            title="Kill Container"
+            icon={Icon.Trash}
+            onAction={() => containerCommand(r.container!, "kill", "Killed")}
+          />
+        </MenuBarExtra.Section>
+      ) : (
+        <MenuBarExtra.Section>
+          <MenuBarExtra.Item title="Stop and Free Port" icon={Icon.XMarkCircle} onAction={() => stop(r, "TERM")} />
+          <MenuBarExtra.Item title="Force Stop" icon={Icon.Trash} onAction={() => stop(r, "KILL")} />
+        </MenuBarExtra.Section>
+      )}
+    </MenuBarExtra.Submenu>
+  );
+
+  return (
+    <MenuBarExtra
+      icon={Icon.Network}
+      title={title}
+      tooltip={
+        pinned.length
+          ? `${upCount} of ${pinned.length} pinned ports listening`
+          : `${list.length} listening ${list.length === 1 ? "port" : "ports"}`
+      }
+      isLoading={isLoading}
+    >
+      {pinned.length ? (
+        <MenuBarExtra.Section title="Pinned Ports">
+          {pinned.map((port) => {
+            const holders = pinnedRows.filter((r) => r.port === port);
+            return holders.length ? (
+              holders.map(rowMenu)
+            ) : (
+              <MenuBarExtra.Item key={`pinned-${port}`} title={`:${port}  not listening`} icon={Icon.Circle} />
+            );
+          })}
+          {otherRows.length ? (
+            <MenuBarExtra.Submenu title={`Other Ports (${otherRows.length})`} icon={Icon.List}>
+              {otherRows.map(rowMenu)}
+            </MenuBarExtra.Submenu>
+          ) : null}
+        </MenuBarExtra.Section>
+      ) : (
+        <MenuBarExtra.Section title={otherRows.length ? "Listening Ports" : "Nothing is listening"}>
+          {otherRows.map(rowMenu)}
+        </MenuBarExtra.Section>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Localhost Manager"
+          icon={Icon.List}
+          onAction={openManager}
+          shortcut={{ modifiers: ["cmd"], key: "o" }}
+        />
+        <MenuBarExtra.Item
+          title="Refresh"
+          icon={Icon.RotateClockwise}
+          onAction={() => load(true)}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+        />
+        <MenuBarExtra.Item
+          title="Configure Pinned Ports…"
+          icon={Icon.Gear}
+          onAction={openCommandPreferences}
+          shortcut={{ modifiers: ["cmd"], key: "," }}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,144 @@
+import { execa } from "execa";
+import type { Listener, ProcessEntry } from "../lib/types";
+import { basename } from "../lib/utils";
+import {
+  parseAddressPort,
+  parseLsofConnections,
+  parseLsofCwds,
+  parseLsofFields,
+  parsePsLine,
+  parsePsTableLine,
+  type LsofRecord,
+  type SocketRecord,
+} from "../lib/parsers";
+import { SignalError, type Platform, type ProcessInfo, type Signal } from "./types";
+
+// =====================
+// System binary paths for macOS
+// =====================
+const LSOF_PATH = "/usr/sbin/lsof";
+const PS_PATH = "/bin/ps";
+const KILL_PATH = "/bin/kill";
+const CURRENT_USER = process.env.USER || "";
+
+// =====================
+// Host listeners (lsof)
+// =====================
+async function getListeningByProto(proto: "tcp" | "udp"): Promise<LsofRecord[]> {
+  const args = proto === "tcp" ? ["-nP", "-iTCP", "-sTCP:LISTEN", "-FpcPnTuL"] : ["-nP", "-iUDP", "-FpcPnTuL"];
+  const { stdout } = await execa(LSOF_PATH, args, { timeout: 4000 });
+  return parseLsofFields(stdout, proto);
+}
+
+async function getListeners(): Promise<Listener[]> {
+  const [tcp, udp] = await Promise.all([getListeningByProto("tcp"), getListeningByProto("udp")]);
+  const base: Listener[] = [];
+  for (const r of [...tcp, ...udp]) {
+    for (const n of r.names) {
+      // Ignore connected UDP entries like "127.0.0.1:12345->8.8.8.8:53"
+      if (n.includes("->")) continue;
+      const ap = parseAddressPort(n);
+      if (!ap || !r.pid || !r.cmd) continue;
+      base.push({
+        pid: r.pid,
+        cmd: r.cmd,
+        user: r.user,
+        uid: r.uid,
+        address: ap.address,
+        port: ap.port,
+        protocol: r.proto,
+        displayName: basename(r.cmd) || r.cmd,
+      });
+    }
+  }
+  return base;
+}
+
+// One lsof for all PIDs; exits non-zero when some PID is gone, so don't reject
+async function getCwds(pids: number[]): Promise<Map<number, string>> {
+  if (pids.length === 0) return new Map();
+  const { stdout } = await execa(LSOF_PATH, ["-a", "-p", pids.join(","), "-d", "cwd", "-Fn"], {
+    timeout: 2500,
+    reject: false,
+  });
+  return parseLsofCwds(stdout);
+}
+
+// One ps for all PIDs. lstart goes before command so the free-form command can run to the end of the line.
+async function getProcessInfo(pids: number[]): Promise<Map<number, ProcessInfo>> {
+  const out = new Map<number, ProcessInfo>();
+  if (pids.length === 0) return out;
+  const { stdout } = await execa(PS_PATH, ["-o", "pid=,lstart=,command=", "-p", pids.join(",")], {
+    timeout: 2500,
+    reject: false,
+  });
+  for (const line of stdout.split("\n")) {
+    const info = parsePsLine(line);
+    if (info) out.set(info.pid, info);
+  }
+  return out;
+}
+
+async function getProcessTable(): Promise<ProcessEntry[]> {
+  const { stdout } = await execa(PS_PATH, ["-axo", "pid=,ppid=,pgid=,command="], { timeout: 2500, reject: false });
+  return stdout
+    .split("\n")
+    .map(parsePsTableLine)
+    .filter((e): e is ProcessEntry => e !== null);
+}
+
+async function getSockets(port: number): Promise<SocketRecord[]> {
+  // Exits 1 when nothing matches
+  const { stdout, exitCode, stderr } = await execa(LSOF_PATH, ["-nP", `-iTCP:${port}`, "-FpcnT"], {
+    timeout: 4000,
+    reject: false,
+  });
+  if (exitCode !== 0 && exitCode !== 1) throw new Error(stderr || `lsof exited with ${exitCode}`);
+  return parseLsofConnections(stdout);
+}
+
+async function findPidsByPort(port: number, proto: "tcp" | "udp"): Promise<number[]> {
+  const selector = proto === "tcp" ? `-tiTCP:${port}` : `-tiUDP:${port}`;
+  const args = [selector];
+  if (proto === "tcp") args.push("-sTCP:LISTEN");
+  // lsof exits 1 when nothing matches, which here just means the port is free
+  const { stdout, exitCode, stderr } = await execa(LSOF_PATH, args, { timeout: 2000, reject: false });
+  if (exitCode !== 0 && exitCode !== 1) throw new Error(stderr || `lsof exited with ${exitCode}`);
+  return stdout
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => Number(l))
+    .filter((n) => !Number.isNaN(n));
+}
+
+async function kill(pid: number, sig: Signal) {
+  const { exitCode, stderr } = await execa(KILL_PATH, ["-" + sig, String(pid)], { reject: false });
+  if (exitCode === 0) return;
+  if (/not permitted/i.test(stderr)) throw new SignalError(`Not permitted to signal PID ${pid}`, "EPERM");
+  if (/no such process/i.test(stderr)) throw new SignalError(`PID ${pid} is not running`, "ESRCH");
+  throw new SignalError(stderr || `kill exited with ${exitCode}`, "EUNKNOWN");
+}
+
+function isSystem(l: Listener) {
+  if (l.uid !== undefined && l.uid < 500) return true; // system UIDs
+  if (l.user && CURRENT_USER && l.user !== CURRENT_USER) return true; // other users
+  const p = l.execPath || l.cmd;
+  return (
+    p.startsWith("/System/") ||
+    p.startsWith("/usr/sbin/") ||
+    p.startsWith("/usr/libexec/") ||
+    p.startsWith("/Library/CoreServices/")
+  );
+}
+
+export const darwin: Platform = {
+  getListeners,
+  getCwds,
+  getProcessInfo,
+  getProcessTable,
+  getSockets,
+  findPidsByPort,
+  kill,
+  isSystem,
+};
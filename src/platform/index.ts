@@ -0,0 +1,8 @@
+import { darwin } from "./darwin";
+import { linux } from "./linux";
+import type { Platform } from "./types";
+
+export { SignalError } from "./types";
+export type { Platform, ProcessInfo, Signal } from "./types";
+
+export const platform: Platform = process.platform === "linux" ? linux : darwin;
@@ -0,0 +1,272 @@
+import { readFile, readdir, readlink } from "fs/promises";
+import type { Listener, ProcessEntry } from "../lib/types";
+import {
+  formatLstart,
+  parseProcNet,
+  parseProcStatIds,
+  parseProcStatStartTicks,
+  TCP_STATES,
+  type ProcNetEntry,
+  type SocketRecord,
+} from "../lib/parsers";
+import { basename } from "../lib/utils";
+import { SignalError, type Platform, type ProcessInfo, type Signal } from "./types";
+
+// =====================
+// Linux: everything comes from /proc, no child processes
+// =====================
+const CURRENT_USER = process.env.USER || "";
+// USER_HZ is 100 on every mainstream Linux architecture; /proc/<pid>/stat start times are in these ticks
+const CLOCK_TICKS = 100;
+const TCP_LISTEN = "0A";
+
+// =====================
+// /proc/net/{tcp,udp}{,6}
+// =====================
+async function readProcNet(file: string): Promise<ProcNetEntry[]> {
+  try {
+    return parseProcNet(await readFile(`/proc/net/${file}`, "utf8"), file.endsWith("6"));
+  } catch {
+    // e.g. IPv6 disabled
+    return [];
+  }
+}
+
+// =====================
+// Socket inode -> PID
+// =====================
+async function listPids(): Promise<number[]> {
+  const entries = await readdir("/proc");
+  return entries.filter((e) => /^\d+$/.test(e)).map(Number);
+}
+
+// Records which of `inodes` this process holds
+async function scanFds(pid: number, inodes: Set<number>, out: Map<number, number>): Promise<void> {
+  let fds: string[];
+  try {
+    fds = await readdir(`/proc/${pid}/fd`);
+  } catch {
+    return; // gone, or another user's process: not readable without root, same as lsof
+  }
+  for (const fd of fds) {
+    try {
+      const target = await readlink(`/proc/${pid}/fd/${fd}`);
+      const m = target.match(/^socket:\[(\d+)\]$/);
+      if (m && inodes.has(Number(m[1])) && !out.has(Number(m[1]))) out.set(Number(m[1]), pid);
+    } catch {
+      // fd closed while we were reading
+    }
+  }
+}
+
+/** `likely` PIDs are scanned first; every other process is only read for sockets they do not own. */
+async function mapSocketInodesToPids(inodes: Set<number>, likely: number[] = []): Promise<Map<number, number>> {
+  const out = new Map<number, number>();
+  if (inodes.size === 0) return out;
+  for (const pid of likely) await scanFds(pid, inodes, out);
+  if (out.size === inodes.size) return out;
+  const scanned = new Set(likely);
+  for (const pid of await listPids()) {
+    if (scanned.has(pid)) continue;
+    await scanFds(pid, inodes, out);
+    if (out.size === inodes.size) break;
+  }
+  return out;
+}
+
+let usersByUid: Map<number, string> | null = null;
+async function getUserName(uid: number): Promise<string | undefined> {
+  if (!usersByUid) {
+    usersByUid = new Map();
+    try {
+      for (const line of (await readFile("/etc/passwd", "utf8")).split("\n")) {
+        const [name, , id] = line.split(":");
+        if (name && id) usersByUid.set(Number(id), name);
+      }
+    } catch {
+      // leave empty; users are shown by UID only
+    }
+  }
+  return usersByUid.get(uid);
+}
+
+async function readComm(pid: number): Promise<string | undefined> {
+  try {
+    return (await readFile(`/proc/${pid}/comm`, "utf8")).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function getListeners(): Promise<Listener[]> {
+  const [tcp, tcp6, udp, udp6] = await Promise.all(["tcp", "tcp6", "udp", "udp6"].map((f) => readProcNet(f)));
+  const candidates: { entry: ProcNetEntry; protocol: "tcp" | "udp" }[] = [
+    ...[...tcp, ...tcp6].filter((e) => e.state === TCP_LISTEN).map((entry) => ({ entry, protocol: "tcp" as const })),
+    // Ignore connected UDP sockets, like lsof's "->" names
+    ...[...udp, ...udp6].filter((e) => e.remotePort === 0).map((entry) => ({ entry, protocol: "udp" as const })),
+  ];
+
+  const pidByInode = await mapSocketInodesToPids(new Set(candidates.map((c) => c.entry.inode)));
+  const base: Listener[] = [];
+  for (const { entry, protocol } of candidates) {
+    const pid = pidByInode.get(entry.inode);
+    if (!pid) continue;
+    const cmd = await readComm(pid);
+    if (!cmd) continue;
+    base.push({
+      pid,
+      cmd,
+      user: await getUserName(entry.uid),
+      uid: entry.uid,
+      address: entry.address,
+      port: entry.port,
+      protocol,
+      displayName: cmd,
+    });
+  }
+  return base;
+}
+
+// =====================
+// Per-process details
+// =====================
+async function getCwds(pids: number[]): Promise<Map<number, string>> {
+  const out = new Map<number, string>();
+  for (const pid of pids) {
+    try {
+      out.set(pid, await readlink(`/proc/${pid}/cwd`));
+    } catch {
+      // gone, or owned by another user
+    }
+  }
+  return out;
+}
+
+let bootTimeMs: number | null = null;
+async function getBootTimeMs(): Promise<number | undefined> {
+  if (bootTimeMs === null) {
+    const m = (await readFile("/proc/stat", "utf8")).match(/^btime\s+(\d+)$/m);
+    if (!m) return undefined;
+    bootTimeMs = Number(m[1]) * 1000;
+  }
+  return bootTimeMs;
+}
+
+async function getStartedAt(pid: number): Promise<string | undefined> {
+  try {
+    const ticks = parseProcStatStartTicks(await readFile(`/proc/${pid}/stat`, "utf8"));
+    const boot = await getBootTimeMs();
+    if (ticks === undefined || boot === undefined) return undefined;
+    return formatLstart(new Date(boot + (ticks / CLOCK_TICKS) * 1000));
+  } catch {
+    return undefined;
+  }
+}
+
+async function readProcessInfo(pid: number): Promise<ProcessInfo> {
+  try {
+    const argv = (await readFile(`/proc/${pid}/cmdline`, "utf8")).split("\0").filter(Boolean);
+    const exe = await readlink(`/proc/${pid}/exe`).catch(() => undefined);
+    const execPath = exe || argv[0];
+    return {
+      execPath,
+      cmdline: argv.slice(1).join(" "),
+      argv,
+      startedAt: await getStartedAt(pid),
+      fullCommand: basename(execPath) || execPath,
+    };
+  } catch {
+    return {};
+  }
+}
+
+async function getProcessInfo(pids: number[]): Promise<Map<number, ProcessInfo>> {
+  const out = new Map<number, ProcessInfo>();
+  for (const pid of pids) out.set(pid, await readProcessInfo(pid));
+  return out;
+}
+
+async function readProcessEntry(pid: number): Promise<ProcessEntry | null> {
+  try {
+    const ids = parseProcStatIds(await readFile(`/proc/${pid}/stat`, "utf8"));
+    if (!ids) return null;
+    // Kernel threads have an empty cmdline; show them like ps does
+    const argv = (await readFile(`/proc/${pid}/cmdline`, "utf8")).split("\0").filter(Boolean);
+    return { pid, ppid: ids.ppid, pgid: ids.pgid, command: argv.length ? argv.join(" ") : `[${ids.comm}]` };
+  } catch {
+    return null; // exited while we were reading
+  }
+}
+
+async function getProcessTable(): Promise<ProcessEntry[]> {
+  const pids = (await readdir("/proc")).filter((d) => /^\d+$/.test(d)).map(Number);
+  const entries = await Promise.all(pids.map(readProcessEntry));
+  return entries.filter((e): e is ProcessEntry => e !== null);
+}
+
+async function getSockets(port: number): Promise<SocketRecord[]> {
+  const [tcp, tcp6] = await Promise.all([readProcNet("tcp"), readProcNet("tcp6")]);
+  const entries = [...tcp, ...tcp6].filter((e) => e.state !== TCP_LISTEN && (e.port === port || e.remotePort === port));
+  // TIME_WAIT sockets belong to no process any more and have inode 0
+  const pidByInode = await mapSocketInodesToPids(new Set(entries.map((e) => e.inode).filter(Boolean)));
+  const out: SocketRecord[] = [];
+  for (const e of entries) {
+    const pid = e.inode ? pidByInode.get(e.inode) : undefined;
+    out.push({
+      pid,
+      cmd: pid ? await readComm(pid) : undefined,
+      localAddress: e.address,
+      localPort: e.port,
+      remoteAddress: e.remoteAddress,
+      remotePort: e.remotePort,
+      state: TCP_STATES[e.state] ?? e.state,
+    });
+  }
+  return out;
+}
+
+// Polled while a stop waits for the port, so it reads only this protocol's tables and, while the stopped PIDs
+// still hold the socket, only their fds
+async function findPidsByPort(port: number, proto: "tcp" | "udp", likely: number[] = []): Promise<number[]> {
+  const files = proto === "tcp" ? ["tcp", "tcp6"] : ["udp", "udp6"];
+  const entries = (await Promise.all(files.map((f) => readProcNet(f))))
+    .flat()
+    .filter((e) => e.port === port && (proto === "tcp" ? e.state === TCP_LISTEN : e.remotePort === 0));
+  const pidByInode = await mapSocketInodesToPids(new Set(entries.map((e) => e.inode)), likely);
+  return [...new Set(pidByInode.values())];
+}
+
+async function kill(pid: number, sig: Signal) {
+  try {
+    process.kill(pid, `SIG${sig}`);
+  } catch (err: unknown) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "EPERM") throw new SignalError(`Not permitted to signal PID ${pid}`, "EPERM");
+    if (code === "ESRCH") throw new SignalError(`PID ${pid} is not running`, "ESRCH");
+    throw new SignalError(err instanceof Error ? err.message : String(err), "EUNKNOWN");
+  }
+}
+
+function isSystem(l: Listener) {
+  if (l.uid !== undefined && l.uid < 1000) return true; // system UIDs
+  if (l.user && CURRENT_USER && l.user !== CURRENT_USER) return true; // other users
+  const p = l.execPath || l.cmd;
+  return (
+    p.startsWith("/usr/sbin/") ||
+    p.startsWith("/sbin/") ||
+    p.startsWith("/usr/lib/systemd/") ||
+    p.startsWith("/lib/systemd/") ||
+    p.startsWith("/usr/libexec/")
+  );
+}
+
+export const linux: Platform = {
+  getListeners,
+  getCwds,
+  getProcessInfo,
+  getProcessTable,
+  getSockets,
+  findPidsByPort,
+  kill,
+  isSystem,
+};
@@ -0,0 +1,51 @@
+import type { SocketRecord } from "../lib/parsers";
+import type { Listener, ProcessEntry } from "../lib/types";
+
+export type Signal = "TERM" | "KILL";
+
+/**
+ * Thrown by `Platform.kill`. `code` follows Node's errno names so callers can tell a process owned by
+ * another user (EPERM) from one that already exited (ESRCH) on every platform.
+ */
+export class SignalError extends Error {
+  constructor(
+    message: string,
+    readonly code: "EPERM" | "ESRCH" | "EUNKNOWN"
+  ) {
+    super(message);
+  }
+}
+
+export type ProcessInfo = {
+  execPath?: string;
+  cmdline?: string;
+  argv?: string[];
+  startedAt?: string;
+  fullCommand?: string;
+};
+
+/**
+ * Everything the UI needs from the operating system. Each implementation produces the same
+ * `Listener` records, so the command never has to know whether it is talking to lsof or /proc.
+ */
+export interface Platform {
+  /** Every TCP/UDP socket in the listening state, without process enrichment. */
+  getListeners(): Promise<Listener[]>;
+  /** Working directories for many PIDs in one call; PIDs that could not be read are left out. */
+  getCwds(pids: number[]): Promise<Map<number, string>>;
+  /** Executable, arguments and start time for many PIDs in one call. */
+  getProcessInfo(pids: number[]): Promise<Map<number, ProcessInfo>>;
+  /** Every process with its parent and process group, for process trees. */
+  getProcessTable(): Promise<ProcessEntry[]>;
+  /**
+   * Connected TCP sockets with `port` on either end, so both the server's and local clients' ends of each
+   * connection are included. Sockets of processes we may not inspect come without a PID.
+   */
+  getSockets(port: number): Promise<SocketRecord[]>;
+  /** PIDs owning a listening socket on the given port. `likely` PIDs (the ones being stopped) are checked first. */
+  findPidsByPort(port: number, proto: "tcp" | "udp", likely?: number[]): Promise<number[]>;
+  /** Sends the signal; rejects with a `SignalError`. */
+  kill(pid: number, sig: Signal): Promise<void>;
+  /** Background daemons and other users' processes, hidden by the "Hide system processes" filter. */
+  isSystem(listener: Listener): boolean;
+}
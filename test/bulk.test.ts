@@ -0,0 +1,26 @@
+import { spawn } from "child_process";
+import { once } from "events";
+import { describe, expect, it } from "vitest";
+import { runBulkStop } from "../src/lib/bulk";
+
+function spawnNode(script: string) {
+  return spawn(process.execPath, ["-e", script], { stdio: "ignore" });
+}
+
+describe("runBulkStop", () => {
+  it("counts stopped and already exited processes once each", async () => {
+    const running = spawnNode("setInterval(() => {}, 1000)");
+    const gone = spawnNode("");
+    await once(gone, "exit");
+    const plan = {
+      processes: [
+        { pid: running.pid!, name: "node", ports: [3000] },
+        { pid: gone.pid!, name: "node", ports: [3001] },
+      ],
+      containers: [],
+    };
+    const exit = once(running, "exit");
+    expect(await runBulkStop(plan, 2000)).toEqual({ stopped: 2, failed: [] });
+    await exit;
+  });
+});
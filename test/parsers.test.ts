@@ -0,0 +1,309 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import {
+  hexToIPv4,
+  hexToIPv6,
+  parseAddressPort,
+  parseDockerPorts,
+  parseDockerPsLine,
+  parseHtmlTitle,
+  parseLsofConnections,
+  parseLsofFields,
+  parseLstart,
+  parseProcNet,
+  parsePsLine,
+} from "../src/lib/parsers";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+const lines = (name: string) => fixture(name).split("\n").filter(Boolean);
+
+// =====================
+// lsof
+// =====================
+describe("parseLsofFields", () => {
+  it("groups TCP names per process", () => {
+    expect(parseLsofFields(fixture("lsof-tcp-listen.txt"), "tcp")).toEqual([
+      {
+        pid: 20344,
+        cmd: "node",
+        uid: 0,
+        user: "root",
+        names: ["*:3000", "127.0.0.1:5432", "[::1]:9229"],
+        proto: "tcp",
+      },
+    ]);
+  });
+
+  it("tags UDP records with their protocol", () => {
+    const [record] = parseLsofFields(fixture("lsof-udp.txt"), "udp");
+    expect(record.proto).toBe("udp");
+    expect(record.names).toEqual(["*:5353", "[::1]:5354"]);
+  });
+
+  it("returns nothing for empty output", () => {
+    expect(parseLsofFields("", "tcp")).toEqual([]);
+  });
+});
+
+describe("parseAddressPort", () => {
+  it.each([
+    ["*:3000", "*", 3000],
+    ["127.0.0.1:5432 (LISTEN)", "127.0.0.1", 5432],
+    ["[::1]:9229", "::1", 9229],
+    ["[fe80::1%lo0]:5353", "fe80::1%lo0", 5353],
+    ["::1:53", "::1", 53],
+  ])("%s", (name, address, port) => {
+    expect(parseAddressPort(name)).toEqual({ address, port });
+  });
+
+  it("rejects names without a port", () => {
+    expect(parseAddressPort("*:*")).toBeNull();
+    expect(parseAddressPort("localhost")).toBeNull();
+  });
+});
+
+describe("parseLsofConnections", () => {
+  it("keeps both ends of each connection and skips the listening socket", () => {
+    expect(parseLsofConnections(fixture("lsof-connections-3000.txt"))).toEqual([
+      {
+        pid: 20344,
+        cmd: "node",
+        localAddress: "::1",
+        localPort: 37852,
+        remoteAddress: "::1",
+        remotePort: 3000,
+        state: "ESTABLISHED",
+      },
+      {
+        pid: 20344,
+        cmd: "node",
+        localAddress: "::1",
+        localPort: 3000,
+        remoteAddress: "::1",
+        remotePort: 37852,
+        state: "ESTABLISHED",
+      },
+    ]);
+  });
+});
+
+// =====================
+// ps
+// =====================
+describe("parsePsLine", () => {
+  const [linux, padded, postgres] = lines("ps-lstart.txt").map(parsePsLine);
+
+  it("splits the executable from its arguments", () => {
+    expect(linux).toEqual({
+      pid: 20344,
+      execPath: "node",
+      cmdline: "/tmp/srv.js",
+      argv: ["node", "/tmp/srv.js"],
+      startedAt: "Mon Oct 19 19:05:24 2026",
+      fullCommand: "node",
+    });
+    expect(postgres?.execPath).toBe("/opt/homebrew/opt/postgresql@16/bin/postgres");
+    expect(postgres?.fullCommand).toBe("postgres");
+    expect(postgres?.cmdline).toBe("-D /opt/homebrew/var/postgresql@16");
+  });
+
+  it("collapses the padding ps puts before single-digit days", () => {
+    expect(padded?.pid).toBe(812);
+    expect(padded?.startedAt).toBe("Mon Oct 6 09:12:44 2026");
+  });
+
+  it("rejects lines without a start time", () => {
+    expect(parsePsLine("  PID STARTED COMMAND")).toBeNull();
+  });
+});
+
+describe("parseLstart", () => {
+  it("reads local time", () => {
+    expect(parseLstart("Mon Oct 6 09:12:44 2026")).toBe(new Date(2026, 9, 6, 9, 12, 44).getTime());
+  });
+
+  it("rejects unknown months", () => {
+    expect(parseLstart("Mon Okt 6 09:12:44 2026")).toBeUndefined();
+  });
+});
+
+// =====================
+// /proc/net
+// =====================
+describe("hexToIPv4 / hexToIPv6", () => {
+  it("reads host byte order", () => {
+    expect(hexToIPv4("0100007F")).toBe("127.0.0.1");
+    expect(hexToIPv4("00000000")).toBe("0.0.0.0");
+  });
+
+  it("compresses the longest zero run", () => {
+    expect(hexToIPv6("00000000000000000000000000000000")).toBe("::");
+    expect(hexToIPv6("00000000000000000000000001000000")).toBe("::1");
+    expect(hexToIPv6("000080FE000000000000000001000000")).toBe("fe80::1");
+    expect(hexToIPv6("B80D0120000000000000000001000000")).toBe("2001:db8::1");
+  });
+});
+
+describe("parseProcNet", () => {
+  it("parses IPv4 TCP listeners", () => {
+    expect(parseProcNet(fixture("proc-net-tcp.txt"), false)).toEqual([
+      { address: "127.0.0.1", port: 5432, remoteAddress: "0.0.0.0", remotePort: 0, state: "0A", uid: 0, inode: 42008 },
+    ]);
+  });
+
+  it("reports the IPv6 wildcard as * and keeps connected sockets", () => {
+    const entries = parseProcNet(fixture("proc-net-tcp6.txt"), true);
+    expect(entries.map((e) => [e.address, e.port, e.state, e.inode])).toEqual([
+      ["*", 3000, "0A", 42007],
+      ["::1", 9229, "0A", 42009],
+      ["::1", 3000, "01", 42013],
+      ["::1", 37852, "01", 42012],
+    ]);
+    expect(entries[2]).toMatchObject({ remoteAddress: "::1", remotePort: 37852 });
+  });
+
+  it("parses UDP sockets, which have no LISTEN state", () => {
+    expect(parseProcNet(fixture("proc-net-udp.txt"), false)).toEqual([
+      { address: "*", port: 5353, remoteAddress: "0.0.0.0", remotePort: 0, state: "07", uid: 0, inode: 42010 },
+    ]);
+    expect(parseProcNet(fixture("proc-net-udp6.txt"), true)).toEqual([
+      { address: "::1", port: 5354, remoteAddress: "::", remotePort: 0, state: "07", uid: 0, inode: 42011 },
+    ]);
+  });
+});
+
+// =====================
+// docker
+// =====================
+describe("parseDockerPorts", () => {
+  it("reads IPv4 and IPv6 binds of one port", () => {
+    expect(parseDockerPorts("0.0.0.0:5432->5432/tcp, :::5432->5432/tcp")).toEqual([
+      { hostIp: "0.0.0.0", hostPort: 5432, containerPort: 5432, protocol: "tcp" },
+      { hostIp: "::", hostPort: 5432, containerPort: 5432, protocol: "tcp" },
+    ]);
+  });
+
+  it("strips brackets from IPv6 host IPs", () => {
+    expect(parseDockerPorts("[::]:6379->6379/tcp")).toEqual([
+      { hostIp: "::", hostPort: 6379, containerPort: 6379, protocol: "tcp" },
+    ]);
+    expect(parseDockerPorts("[::1]:8080->80/tcp")[0].hostIp).toBe("::1");
+  });
+
+  it("expands ranges one port at a time", () => {
+    expect(parseDockerPorts("127.0.0.1:4510-4512->4510-4512/tcp")).toEqual([
+      { hostIp: "127.0.0.1", hostPort: 4510, containerPort: 4510, protocol: "tcp" },
+      { hostIp: "127.0.0.1", hostPort: 4511, containerPort: 4511, protocol: "tcp" },
+      { hostIp: "127.0.0.1", hostPort: 4512, containerPort: 4512, protocol: "tcp" },
+    ]);
+  });
+
+  it("maps a host range onto a single container port", () => {
+    expect(parseDockerPorts("0.0.0.0:9000-9001->80/tcp").map((p) => [p.hostPort, p.containerPort])).toEqual([
+      [9000, 80],
+      [9001, 80],
+    ]);
+  });
+
+  it("keeps exposed ports that are not published", () => {
+    expect(parseDockerPorts("6380/tcp, 53/udp")).toEqual([
+      { containerPort: 6380, protocol: "tcp" },
+      { containerPort: 53, protocol: "udp" },
+    ]);
+  });
+
+  it("skips ranges that end before they start", () => {
+    expect(parseDockerPorts("0.0.0.0:9002-9000->80/tcp")).toEqual([]);
+  });
+});
+
+describe("parseDockerPsLine", () => {
+  const [db, web, cache, aws] = lines("docker-ps.txt").map(parseDockerPsLine);
+
+  it("splits the tab-separated columns", () => {
+    expect(db).toMatchObject({
+      id: "3f2a9c1b7d4e",
+      image: "postgres:16",
+      name: "shop-db-1",
+      status: "Up 2 hours (healthy)",
+      ports: [
+        { hostIp: "0.0.0.0", hostPort: 5432, containerPort: 5432, protocol: "tcp" },
+        { hostIp: "::", hostPort: 5432, containerPort: 5432, protocol: "tcp" },
+      ],
+    });
+  });
+
+  it("reads compose labels", () => {
+    expect(db?.compose).toEqual({
+      project: "shop",
+      service: "db",
+      workingDir: "/Users/me/work/shop",
+      configFiles: ["/Users/me/work/shop/compose.yaml"],
+    });
+  });
+
+  it("leaves standalone containers without compose info", () => {
+    expect(web?.compose).toBeUndefined();
+  });
+
+  it("expands published ranges for both address families", () => {
+    expect(web?.ports.map((p) => [p.hostIp, p.hostPort])).toEqual([
+      ["0.0.0.0", 8000],
+      ["0.0.0.0", 8001],
+      ["0.0.0.0", 8002],
+      ["::", 8000],
+      ["::", 8001],
+      ["::", 8002],
+    ]);
+  });
+
+  it("keeps exposed ports next to published ones", () => {
+    expect(cache?.ports).toEqual([
+      { hostIp: "127.0.0.1", hostPort: 16379, containerPort: 6379, protocol: "tcp" },
+      { containerPort: 6380, protocol: "tcp" },
+    ]);
+    expect(aws?.ports.filter((p) => p.hostPort !== undefined)).toHaveLength(3);
+  });
+
+  it("reads podman's fractional creation time", () => {
+    expect(db?.createdMs).toBe(Date.parse("2026-10-19T09:12:44+02:00"));
+    expect(cache?.createdMs).toBe(Date.parse("2026-10-16T08:00:00+02:00"));
+  });
+
+  it("reads the health check result from the status", () => {
+    expect(db?.health).toBe("healthy");
+    expect(web?.health).toBeUndefined();
+  });
+
+  it("reads the exit code of stopped containers", () => {
+    expect(db?.state).toBe("running");
+    expect(db?.exitCode).toBeUndefined();
+    expect(aws?.state).toBe("exited");
+    expect(aws?.exitCode).toBe(137);
+  });
+
+  it("rejects lines without an ID or name", () => {
+    expect(parseDockerPsLine("")).toBeNull();
+  });
+});
+
+// =====================
+// HTML
+// =====================
+describe("parseHtmlTitle", () => {
+  it("collapses whitespace and decodes entities", () => {
+    expect(parseHtmlTitle("<html><TITLE lang=en>\n  Tom &amp; Jerry &#8211; &#x1F600;\n</TITLE>")).toBe(
+      "Tom & Jerry \u2013 \u{1F600}"
+    );
+  });
+
+  it("replaces code points that are not characters", () => {
+    expect(parseHtmlTitle("<title>a &#99999999; b &#xD800; c &#0;</title>")).toBe("a \uFFFD b \uFFFD c \uFFFD");
+  });
+
+  it("returns nothing without a title", () => {
+    expect(parseHtmlTitle("<title> </title>")).toBeUndefined();
+    expect(parseHtmlTitle("{}")).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { detectProject } from "../src/lib/project";
+
+const dirs: string[] = [];
+
+function projectWith(manifest: string, content: string) {
+  const dir = mkdtempSync(join(tmpdir(), "project-"));
+  dirs.push(dir);
+  writeFileSync(join(dir, manifest), content);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("detectProject", () => {
+  it("recognizes Spring Boot in a pom.xml", async () => {
+    const dir = projectWith(
+      "pom.xml",
+      `<project>
+  <artifactId>orders</artifactId>
+  <dependencies>
+    <dependency>
+      <groupId>org.springframework.boot</groupId>
+      <artifactId>spring-boot-starter-web</artifactId>
+    </dependency>
+  </dependencies>
+</project>
+`
+    );
+    expect((await detectProject(dir))?.framework).toBe("Spring");
+  });
+
+  it("recognizes Spring Boot in a build.gradle", async () => {
+    const dir = projectWith(
+      "build.gradle",
+      `dependencies {
+    implementation 'org.springframework.boot:spring-boot-starter-web'
+}
+`
+    );
+    expect((await detectProject(dir))?.framework).toBe("Spring");
+  });
+
+  it("does not take a longer name for a dependency", async () => {
+    const dir = projectWith("Cargo.toml", `[dependencies]\naxum-extra = "0.9"\n`);
+    expect((await detectProject(dir))?.framework).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { launchArgv, launchCommandLine, readLaunchLog, type LaunchSpec } from "../src/lib/relaunch";
+
+const spec = (fields: Partial<LaunchSpec>): LaunchSpec => ({ port: 3000, protocol: "tcp", cmd: "node", ...fields });
+
+describe("launchCommandLine", () => {
+  it("keeps the executable", () => {
+    expect(launchCommandLine(spec({ argv: ["node", "server.js", "--port", "3000"] }))).toBe(
+      "node server.js --port 3000"
+    );
+  });
+
+  it("quotes arguments with spaces and shell characters", () => {
+    const argv = ["node", "/Users/me/My Projects/server.js", "--title=it's $HOME", "a;b"];
+    const line = launchCommandLine(spec({ argv }));
+    expect(line).toBe(`node '/Users/me/My Projects/server.js' '--title=it'\\''s $HOME' 'a;b'`);
+    // The shell hands back exactly the original arguments
+    const echoed = execFileSync("/bin/sh", ["-c", `printf '%s\\n' ${line}`], { encoding: "utf8" });
+    expect(echoed.split("\n").slice(0, -1)).toEqual(argv);
+  });
+
+  it("puts the executable back in front of arguments remembered without it", () => {
+    expect(launchArgv(spec({ execPath: "/usr/local/bin/node", cmdline: "server.js --port 3000" }))).toEqual([
+      "/usr/local/bin/node",
+      "server.js",
+      "--port",
+      "3000",
+    ]);
+    expect(launchArgv(spec({}))).toEqual(["node"]);
+  });
+});
+
+describe("readLaunchLog", () => {
+  it("returns the last full lines of a long log, ANSI codes stripped", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "relaunch-test-"));
+    try {
+      const logFile = join(dir, "3000.log");
+      // Multi-byte lines, so the tail starts inside one of them
+      const lines = Array.from({ length: 20_000 }, (_, i) => `line ${i} – ünïcödé`);
+      writeFileSync(logFile, lines.join("\n") + "\n\u001b[32mready\u001b[0m\n");
+      const read = await readLaunchLog(logFile);
+      expect(read.at(-1)).toBe("ready");
+      expect(read.at(-2)).toBe("line 19999 – ünïcödé");
+      expect(lines).toContain(read[0]);
+      expect(read.length).toBeLessThan(lines.length);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
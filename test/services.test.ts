@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { probeKey } from "../src/lib/http-probe";
+import { BUILTIN_SERVICES, mayServeHttp } from "../src/lib/services";
+import type { DockerContainer, Listener } from "../src/lib/types";
+
+const listener = (cmd: string, port: number, protocol: "tcp" | "udp" = "tcp"): Listener => ({
+  pid: 100,
+  cmd,
+  address: "127.0.0.1",
+  port,
+  protocol,
+  displayName: cmd,
+});
+
+describe("mayServeHttp", () => {
+  it("leaves databases and brokers alone", () => {
+    expect(mayServeHttp(listener("redis-server", 6379), BUILTIN_SERVICES)).toBe(false);
+    expect(mayServeHttp(listener("postgres", 5433), BUILTIN_SERVICES)).toBe(false);
+    // Docker's proxy on a well-known port
+    expect(mayServeHttp(listener("docker-proxy", 3306), BUILTIN_SERVICES)).toBe(false);
+  });
+
+  it("probes HTTP services, admin UIs and unknown listeners", () => {
+    expect(mayServeHttp(listener("elasticsearch", 9200), BUILTIN_SERVICES)).toBe(true);
+    expect(mayServeHttp(listener("beam.smp", 15672), BUILTIN_SERVICES)).toBe(true);
+    expect(mayServeHttp(listener("node", 3000), BUILTIN_SERVICES)).toBe(true);
+  });
+
+  it("tells RabbitMQ from other Erlang VMs by port", () => {
+    expect(mayServeHttp(listener("beam.smp", 5672), BUILTIN_SERVICES)).toBe(false);
+    // Phoenix
+    expect(mayServeHttp(listener("beam.smp", 4000), BUILTIN_SERVICES)).toBe(true);
+  });
+
+  it("judges container ports by the image and the port inside the container", () => {
+    const redis: DockerContainer = {
+      id: "c0ffee123456",
+      image: "redis:7",
+      name: "cache",
+      status: "Up 3 days",
+      ports: [{ hostIp: "127.0.0.1", hostPort: 16379, containerPort: 6379, protocol: "tcp" }],
+    };
+    const rabbit: DockerContainer = {
+      ...redis,
+      image: "rabbitmq:3-management",
+      ports: [
+        { hostIp: "0.0.0.0", hostPort: 5673, containerPort: 5672, protocol: "tcp" },
+        { hostIp: "0.0.0.0", hostPort: 15673, containerPort: 15672, protocol: "tcp" },
+      ],
+    };
+    expect(mayServeHttp({ ...listener("docker-proxy", 16379), container: redis }, BUILTIN_SERVICES)).toBe(false);
+    expect(mayServeHttp({ ...listener("docker-proxy", 5673), container: rabbit }, BUILTIN_SERVICES)).toBe(false);
+    expect(mayServeHttp({ ...listener("docker-proxy", 15673), container: rabbit }, BUILTIN_SERVICES)).toBe(true);
+  });
+
+  it("follows the user's catalog", () => {
+    const catalog = [{ name: "Game server", ports: [7777] }, ...BUILTIN_SERVICES];
+    expect(mayServeHttp(listener("node", 7777), catalog)).toBe(false);
+  });
+});
+
+describe("probeKey", () => {
+  it("tells TCP and UDP sockets on one port apart", () => {
+    expect(probeKey(listener("node", 3000))).not.toBe(probeKey(listener("node", 3000, "udp")));
+  });
+});